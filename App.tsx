@@ -4,11 +4,18 @@ import { onAuthStateChanged, User, signInWithEmailAndPassword, createUserWithEma
 import Ingredients from './components/Ingredients';
 import Recipes from './components/Recipes';
 import Calculator from './components/Calculator';
+import Settings from './components/Settings';
+import Sales from './components/Sales';
+import Quotes from './components/Quotes';
+import Orders from './components/Orders';
+import ShoppingList from './components/ShoppingList';
+import Suppliers from './components/Suppliers';
+import Reports from './components/Reports';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'inventory' | 'recipes' | 'calc'>('calc');
+  const [activeTab, setActiveTab] = useState<'inventory' | 'recipes' | 'calc' | 'quotes' | 'orders' | 'shopping' | 'suppliers' | 'sales' | 'reports' | 'settings'>('calc');
 
   // Auth State
   const [email, setEmail] = useState('');
@@ -115,6 +122,13 @@ function App() {
             <button onClick={() => setActiveTab('inventory')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'inventory' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Inventario</button>
             <button onClick={() => setActiveTab('recipes')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'recipes' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Recetas</button>
             <button onClick={() => setActiveTab('calc')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'calc' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Calculadora</button>
+            <button onClick={() => setActiveTab('quotes')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'quotes' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Presupuestos</button>
+            <button onClick={() => setActiveTab('orders')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'orders' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Pedidos</button>
+            <button onClick={() => setActiveTab('shopping')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'shopping' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Compras</button>
+            <button onClick={() => setActiveTab('suppliers')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'suppliers' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Proveedores</button>
+            <button onClick={() => setActiveTab('sales')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'sales' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Historial</button>
+            <button onClick={() => setActiveTab('reports')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'reports' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Reportes</button>
+            <button onClick={() => setActiveTab('settings')} className={`px-4 py-2 rounded-lg transition ${activeTab === 'settings' ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}>Ajustes</button>
           </nav>
         </div>
         <button onClick={handleLogout} className="text-sm text-slate-500 border border-slate-200 px-4 py-2 rounded-lg hover:bg-slate-50">Cerrar Sesión</button>
@@ -125,10 +139,17 @@ function App() {
         {activeTab === 'inventory' && <Ingredients userId={user.uid} />}
         {activeTab === 'recipes' && <Recipes userId={user.uid} />}
         {activeTab === 'calc' && <Calculator userId={user.uid} />}
+        {activeTab === 'quotes' && <Quotes userId={user.uid} />}
+        {activeTab === 'orders' && <Orders userId={user.uid} />}
+        {activeTab === 'shopping' && <ShoppingList userId={user.uid} />}
+        {activeTab === 'suppliers' && <Suppliers userId={user.uid} />}
+        {activeTab === 'sales' && <Sales userId={user.uid} />}
+        {activeTab === 'reports' && <Reports userId={user.uid} />}
+        {activeTab === 'settings' && <Settings userId={user.uid} />}
       </main>
 
       {/* Mobile Bottom Navigation */}
-      <div className="md:hidden fixed bottom-0 w-full bg-white border-t border-rose-100 flex justify-around p-3 pb-safe z-30 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
+      <div className="md:hidden fixed bottom-0 w-full bg-white border-t border-rose-100 flex justify-around gap-2 overflow-x-auto p-3 pb-safe z-30 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
         <button
           onClick={() => setActiveTab('inventory')}
           className={`flex flex-col items-center gap-1 ${activeTab === 'inventory' ? 'text-rose-500' : 'text-slate-400'}`}
@@ -158,6 +179,77 @@ function App() {
           </svg>
           <span className="text-xs font-medium">Ventas</span>
         </button>
+
+        <button
+          onClick={() => setActiveTab('quotes')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'quotes' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          <span className="text-xs font-medium">Presup.</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('orders')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'orders' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          <span className="text-xs font-medium">Pedidos</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('shopping')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'shopping' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z" />
+          </svg>
+          <span className="text-xs font-medium">Compras</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('suppliers')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'suppliers' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0" />
+          </svg>
+          <span className="text-xs font-medium">Proveedores</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('sales')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'sales' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="text-xs font-medium">Historial</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('reports')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'reports' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+          </svg>
+          <span className="text-xs font-medium">Reportes</span>
+        </button>
+
+        <button
+          onClick={() => setActiveTab('settings')}
+          className={`flex flex-col items-center gap-1 ${activeTab === 'settings' ? 'text-rose-500' : 'text-slate-400'}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          <span className="text-xs font-medium">Ajustes</span>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,515 @@
+import {
+  ALLERGEN_LABELS, Allergen, CostingSettings, DIETARY_TAG_LABELS, DietaryTag, Ingredient, NutritionFacts, PriceEntry,
+  Recipe, RecipeUnit, SellableFormat, StockMovement, Unit, UserSettings, YIELD_TYPE_LABELS, YieldType
+} from './types';
+import { appendPriceEntry, calculateRecipeCost, getRefreshedCostFields } from './costing';
+import { NUTRIENT_FIELDS, emptyNutrition } from './nutrition';
+import { RECIPE_UNITS } from './units';
+import { parseCsvNumber, parseCsvRecords } from './csv';
+import { todayISO } from './dates';
+import { DEFAULT_SERVING_SIZE } from './label';
+
+// Bump when the backup layout changes in a way older imports can't read
+export const BACKUP_VERSION = 1;
+
+// Backups reference ingredients and sub-recipes by name so they can be loaded
+// into another account, where the ids are different
+export interface BackupRecipeRow {
+  ingredient: string;
+  quantityUsed: number;
+  entryUnit?: RecipeUnit;
+  entryQuantity?: number;
+}
+
+export interface BackupComponent {
+  recipe: string;
+  quantityUsed: number;
+}
+
+export type BackupIngredient = Omit<Ingredient, 'id' | 'userId'>;
+
+export type BackupRecipe = Omit<Recipe, 'id' | 'userId' | 'ingredients' | 'components' | 'totalCost' | 'costPerGram'> & {
+  ingredients: BackupRecipeRow[];
+  components: BackupComponent[];
+};
+
+export interface CatalogBackup {
+  version: number;
+  exportedAt: string; // yyyy-mm-dd
+  ingredients: BackupIngredient[];
+  recipes: BackupRecipe[];
+  settings?: Omit<UserSettings, 'userId'>;
+}
+
+// What a file contributed, plus the rows that were rejected
+export interface ImportData {
+  ingredients: BackupIngredient[];
+  recipes: BackupRecipe[];
+  settings?: Omit<UserSettings, 'userId'>;
+  errors: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// --- Export ---
+
+export const buildBackup = (ingredients: Ingredient[], recipes: Recipe[], settings: UserSettings): CatalogBackup => {
+  const ingredientName = (id: string) => ingredients.find(i => i.id === id)?.name;
+  const recipeName = (id: string) => recipes.find(r => r.id === id)?.name;
+  const { userId, ...userSettings } = settings;
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: todayISO(),
+    ingredients: ingredients.map(({ id, userId, ...ing }) => ing),
+    recipes: recipes.map(({ id, userId, totalCost, costPerGram, ingredients: rows, components, ...recipe }) => ({
+      ...recipe,
+      ingredients: rows
+        .filter(row => ingredientName(row.ingredientId))
+        .map(row => ({
+          ingredient: ingredientName(row.ingredientId)!,
+          quantityUsed: row.quantityUsed,
+          ...(row.entryUnit ? { entryUnit: row.entryUnit, entryQuantity: row.entryQuantity } : {})
+        })),
+      components: (components || [])
+        .filter(component => recipeName(component.recipeId))
+        .map(component => ({ recipe: recipeName(component.recipeId)!, quantityUsed: component.quantityUsed }))
+    })),
+    settings: userSettings
+  };
+};
+
+const INGREDIENT_COLUMNS = [
+  'nombre', 'unidad', 'cantidad', 'precio_unitario', 'stock', 'stock_minimo',
+  'merma', 'densidad', 'peso_unidad', 'alergenos', 'apto'
+];
+const RECIPE_COLUMNS = [
+  'nombre', 'rendimiento', 'tipo_rendimiento', 'peso_porcion', 'porcion_etiqueta',
+  'alergenos_extra', 'minutos_trabajo', 'minutos_horno', 'merma_coccion'
+];
+const RECIPE_ROW_COLUMNS = ['receta', 'tipo', 'nombre', 'cantidad', 'unidad', 'cantidad_unidad'];
+
+// Allergens and tags go in one cell separated by '|', using their ids
+export const getIngredientSheet = (backup: CatalogBackup): (string | number)[][] => [
+  INGREDIENT_COLUMNS,
+  ...backup.ingredients.map(ing => [
+    ing.name, ing.unit, ing.quantity || 1, ing.pricePerUnit, ing.stock || 0, ing.minStock || 0,
+    ing.wastePercent || 0, ing.density || 0, ing.unitWeight || 0,
+    (ing.allergens || []).join('|'), (ing.dietaryTags || []).join('|')
+  ])
+];
+
+export const getRecipeSheet = (backup: CatalogBackup): (string | number)[][] => [
+  RECIPE_COLUMNS,
+  ...backup.recipes.map(recipe => [
+    recipe.name, recipe.totalYieldWeight, recipe.yieldType || 'weight', recipe.portionWeight || 0, recipe.servingSize || 0,
+    recipe.allergens || '', recipe.labourMinutes || 0, recipe.ovenMinutes || 0, recipe.moistureLossPercent || 0
+  ])
+];
+
+// One line per ingredient or sub-recipe used, quantities in the ingredient's base unit
+export const getRecipeRowSheet = (backup: CatalogBackup): (string | number)[][] => [
+  RECIPE_ROW_COLUMNS,
+  ...backup.recipes.flatMap(recipe => [
+    ...recipe.ingredients.map(row => [
+      recipe.name, 'ingrediente', row.ingredient, row.quantityUsed, row.entryUnit || '', row.entryQuantity ?? ''
+    ]),
+    ...recipe.components.map(component => [recipe.name, 'subreceta', component.recipe, component.quantityUsed, '', ''])
+  ])
+];
+
+// --- Validation ---
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : parseCsvNumber(String(value ?? ''));
+
+// Optional non-negative number; empty means 0
+const optionalNumber = (value: unknown, label: string, problems: string[]): number => {
+  if (value === undefined || value === null || value === '') return 0;
+  const n = toNumber(value);
+  if (isNaN(n) || n < 0) problems.push(`${label} inválido`);
+  return isNaN(n) ? 0 : Math.max(n, 0);
+};
+
+// Like optionalNumber, but undefined when the column isn't in the file at all,
+// so updates leave the current value alone instead of resetting it to 0
+const presentNumber = (value: unknown, label: string, problems: string[]): number | undefined =>
+  value === undefined ? undefined : optionalNumber(value, label, problems);
+
+// Accepts an array (JSON) or a '|'-separated cell (CSV) of ids or labels
+const parseList = <T extends string>(value: unknown, labels: Record<T, string>, label: string, problems: string[]): T[] => {
+  const items = Array.isArray(value) ? value.map(String) : String(value ?? '').split('|');
+  const ids = Object.keys(labels) as T[];
+  return items
+    .map(item => item.trim())
+    .filter(item => item)
+    .map(item => {
+      const id = ids.find(id => sameName(id, item) || sameName(labels[id], item));
+      if (!id) problems.push(`${label} desconocido "${item}"`);
+      return id;
+    })
+    .filter((id): id is T => !!id);
+};
+
+const parseUnit = (value: unknown): Unit | undefined =>
+  (Object.values(Unit) as string[]).find(u => sameName(u, String(value ?? ''))) as Unit | undefined;
+
+const parseNutrition = (value: unknown): NutritionFacts | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  return NUTRIENT_FIELDS.reduce<NutritionFacts>(
+    (facts, field) => ({ ...facts, [field.key]: Math.max(toNumber(raw[field.key]) || 0, 0) }),
+    emptyNutrition()
+  );
+};
+
+// Returns the ingredient, or the problems found in the row
+const validateIngredient = (raw: Record<string, unknown>): BackupIngredient | string[] => {
+  const problems: string[] = [];
+  const name = String(raw.name ?? '').trim();
+  if (!name) problems.push('falta el nombre');
+  const unit = parseUnit(raw.unit);
+  if (!unit) problems.push(`unidad "${raw.unit ?? ''}" inválida (Kg, Gr, Lt o Un)`);
+  const pricePerUnit = toNumber(raw.pricePerUnit);
+  if (isNaN(pricePerUnit) || pricePerUnit < 0) problems.push('precio inválido');
+  const quantity = presentNumber(raw.quantity, 'cantidad', problems);
+  const stock = presentNumber(raw.stock, 'stock', problems);
+  const minStock = presentNumber(raw.minStock, 'stock mínimo', problems);
+  const wastePercent = presentNumber(raw.wastePercent, 'merma', problems);
+  const density = presentNumber(raw.density, 'densidad', problems);
+  const unitWeight = presentNumber(raw.unitWeight, 'peso por unidad', problems);
+
+  // Only the fields the file has are set: a price-only CSV must not clear
+  // stock levels or allergen flags on the ingredients it updates
+  const ingredient: BackupIngredient = {
+    name,
+    unit: unit || Unit.KG,
+    pricePerUnit: isNaN(pricePerUnit) ? 0 : pricePerUnit,
+    ...(quantity !== undefined ? { quantity: quantity || 1 } : {}),
+    ...(raw.nutrition !== undefined ? { nutrition: parseNutrition(raw.nutrition) } : {}),
+    ...(stock !== undefined ? { stock } : {}),
+    ...(minStock !== undefined ? { minStock } : {}),
+    ...(wastePercent !== undefined ? { wastePercent: Math.min(wastePercent, 95) } : {}),
+    ...(density !== undefined ? { density } : {}),
+    ...(unitWeight !== undefined ? { unitWeight } : {}),
+    ...(raw.allergens !== undefined ? { allergens: parseList<Allergen>(raw.allergens, ALLERGEN_LABELS, 'alérgeno', problems) } : {}),
+    ...(raw.dietaryTags !== undefined ? { dietaryTags: parseList<DietaryTag>(raw.dietaryTags, DIETARY_TAG_LABELS, 'apto', problems) } : {}),
+    ...(raw.archived === true ? { archived: true } : {}),
+    ...(Array.isArray(raw.priceHistory) ? { priceHistory: raw.priceHistory as PriceEntry[] } : {})
+  };
+  return problems.length > 0 ? problems : ingredient;
+};
+
+const validateRecipe = (raw: Record<string, unknown>): BackupRecipe | string[] => {
+  const problems: string[] = [];
+  const name = String(raw.name ?? '').trim();
+  if (!name) problems.push('falta el nombre');
+  const totalYieldWeight = toNumber(raw.totalYieldWeight);
+  if (isNaN(totalYieldWeight) || totalYieldWeight <= 0) problems.push('rendimiento inválido');
+  const yieldType = (raw.yieldType || 'weight') as YieldType;
+  if (!(yieldType in YIELD_TYPE_LABELS)) problems.push(`tipo de rendimiento "${yieldType}" inválido`);
+
+  const rows = Array.isArray(raw.ingredients) ? raw.ingredients as Record<string, unknown>[] : [];
+  const ingredients: BackupRecipeRow[] = rows.map(row => {
+    const quantityUsed = toNumber(row.quantityUsed);
+    if (!String(row.ingredient ?? '').trim()) problems.push('fila sin ingrediente');
+    if (isNaN(quantityUsed) || quantityUsed <= 0) problems.push(`cantidad inválida de "${row.ingredient}"`);
+    const entryUnit = RECIPE_UNITS.find(u => u.id === row.entryUnit)?.id;
+    return {
+      ingredient: String(row.ingredient ?? '').trim(),
+      quantityUsed,
+      ...(entryUnit ? { entryUnit, entryQuantity: toNumber(row.entryQuantity) || 0 } : {})
+    };
+  });
+  const componentRows = Array.isArray(raw.components) ? raw.components as Record<string, unknown>[] : [];
+  const components: BackupComponent[] = componentRows.map(row => {
+    const quantityUsed = toNumber(row.quantityUsed);
+    if (isNaN(quantityUsed) || quantityUsed <= 0) problems.push(`cantidad inválida de "${row.recipe}"`);
+    return { recipe: String(row.recipe ?? '').trim(), quantityUsed };
+  });
+  if (ingredients.length + components.length === 0) problems.push('no tiene ingredientes');
+
+  const recipe: BackupRecipe = {
+    name,
+    ingredients,
+    components,
+    totalYieldWeight,
+    yieldType,
+    portionWeight: optionalNumber(raw.portionWeight, 'peso de porción', problems),
+    servingSize: optionalNumber(raw.servingSize, 'porción', problems) || DEFAULT_SERVING_SIZE,
+    allergens: String(raw.allergens ?? '').trim(),
+    labourMinutes: optionalNumber(raw.labourMinutes, 'minutos de trabajo', problems),
+    ovenMinutes: optionalNumber(raw.ovenMinutes, 'minutos de horno', problems),
+    moistureLossPercent: optionalNumber(raw.moistureLossPercent, 'merma de cocción', problems),
+    // Only JSON backups carry pricing and formats
+    ...(raw.pricing !== undefined ? { pricing: raw.pricing && typeof raw.pricing === 'object' ? raw.pricing as Recipe['pricing'] : null } : {}),
+    ...(Array.isArray(raw.formats) ? { formats: raw.formats as SellableFormat[] } : {})
+  };
+  return problems.length > 0 ? problems : recipe;
+};
+
+// Runs `validate` over every item, collecting valid ones and labelled errors
+const collectValid = <T,>(
+  items: Record<string, unknown>[],
+  validate: (raw: Record<string, unknown>) => T | string[],
+  where: (index: number, raw: Record<string, unknown>) => string,
+  errors: string[]
+): T[] =>
+  items.flatMap((raw, index) => {
+    const result = validate(raw);
+    if (Array.isArray(result)) {
+      errors.push(`${where(index, raw)}: ${result.join(', ')}`);
+      return [];
+    }
+    return [result];
+  });
+
+// --- Import ---
+
+export const parseBackupJson = (text: string): ImportData => {
+  let backup: Partial<CatalogBackup>;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return { ingredients: [], recipes: [], errors: ['El archivo no es un JSON válido.'] };
+  }
+  if (!backup || typeof backup !== 'object' || typeof backup.version !== 'number') {
+    return { ingredients: [], recipes: [], errors: ['El archivo no es un backup de la calculadora.'] };
+  }
+  if (backup.version > BACKUP_VERSION) {
+    return { ingredients: [], recipes: [], errors: [`El backup es de una versión más nueva (${backup.version}). Actualiza la aplicación.`] };
+  }
+
+  const errors: string[] = [];
+  const label = (kind: string) => (index: number, raw: Record<string, unknown>) =>
+    `${kind} ${index + 1}${raw.name ? ` ("${raw.name}")` : ''}`;
+  return {
+    ingredients: collectValid(
+      Array.isArray(backup.ingredients) ? backup.ingredients as unknown as Record<string, unknown>[] : [],
+      validateIngredient, label('Ingrediente'), errors
+    ),
+    recipes: collectValid(
+      Array.isArray(backup.recipes) ? backup.recipes as unknown as Record<string, unknown>[] : [],
+      validateRecipe, label('Receta'), errors
+    ),
+    settings: backup.settings && typeof backup.settings === 'object' ? backup.settings : undefined,
+    errors
+  };
+};
+
+// Renames CSV columns to the backup field names
+const mapColumns = (record: Record<string, string>, columns: string[], fields: string[]): Record<string, unknown> =>
+  Object.fromEntries(columns.map((column, i) => [fields[i], record[column]]));
+
+const INGREDIENT_FIELDS = [
+  'name', 'unit', 'quantity', 'pricePerUnit', 'stock', 'minStock',
+  'wastePercent', 'density', 'unitWeight', 'allergens', 'dietaryTags'
+];
+const RECIPE_FIELDS = [
+  'name', 'totalYieldWeight', 'yieldType', 'portionWeight', 'servingSize',
+  'allergens', 'labourMinutes', 'ovenMinutes', 'moistureLossPercent'
+];
+
+// Each sheet is recognised by its columns, so files can have any name.
+// Recipe rows only make sense together with the recipe sheet.
+export const parseCsvSheets = (files: { name: string; text: string }[]): ImportData => {
+  const errors: string[] = [];
+  const ingredients: BackupIngredient[] = [];
+  const recipeRecords: { file: string; records: Record<string, string>[] }[] = [];
+  const rowRecords: Record<string, string>[] = [];
+
+  files.forEach(file => {
+    const records = parseCsvRecords(file.text);
+    const columns = records.length > 0 ? Object.keys(records[0]) : [];
+    const rowLabel = (index: number) => `${file.name}, fila ${index + 2}`;
+    if (columns.includes('precio_unitario')) {
+      ingredients.push(...collectValid(
+        records.map(r => mapColumns(r, INGREDIENT_COLUMNS, INGREDIENT_FIELDS)), validateIngredient, rowLabel, errors
+      ));
+    } else if (columns.includes('rendimiento')) {
+      recipeRecords.push({ file: file.name, records });
+    } else if (columns.includes('receta')) {
+      rowRecords.push(...records);
+    } else {
+      errors.push(`${file.name}: no se reconocen las columnas.`);
+    }
+  });
+
+  const recipes = recipeRecords.flatMap(({ file, records }) =>
+    collectValid(
+      records.map(record => {
+        const raw = mapColumns(record, RECIPE_COLUMNS, RECIPE_FIELDS);
+        const rows = rowRecords.filter(row => sameName(row.receta || '', String(raw.name ?? '')));
+        return {
+          ...raw,
+          ingredients: rows.filter(row => row.tipo !== 'subreceta').map(row => ({
+            ingredient: row.nombre,
+            quantityUsed: row.cantidad,
+            entryUnit: row.unidad || undefined,
+            entryQuantity: row.cantidad_unidad
+          })),
+          components: rows.filter(row => row.tipo === 'subreceta').map(row => ({ recipe: row.nombre, quantityUsed: row.cantidad }))
+        };
+      }),
+      validateRecipe,
+      (index) => `${file}, fila ${index + 2}`,
+      errors
+    )
+  );
+  if (rowRecords.length > 0 && recipeRecords.length === 0) {
+    errors.push('Las filas de recetas necesitan también la planilla de recetas.');
+  }
+
+  return { ingredients, recipes, errors };
+};
+
+export type ImportAction = 'create' | 'update' | 'conflict';
+
+export interface ImportItem {
+  kind: 'ingredient' | 'recipe';
+  name: string;
+  action: ImportAction;
+  existingId?: string; // For updates
+  reason?: string; // For conflicts
+}
+
+// Matches every imported item against the catalog by name, case-insensitively
+// like the duplicate check in the forms. Conflicting items are left out when
+// the import is applied.
+export const planImport = (data: ImportData, ingredients: Ingredient[], recipes: Recipe[]): ImportItem[] => {
+  const items: ImportItem[] = [];
+  const seen = new Set<string>();
+  const firstTime = (kind: string, name: string) => {
+    const key = `${kind}:${name.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  data.ingredients.forEach(ing => {
+    const existing = ingredients.find(i => sameName(i.name, ing.name));
+    if (!firstTime('ingredient', ing.name)) {
+      items.push({ kind: 'ingredient', name: ing.name, action: 'conflict', reason: 'Repetido en el archivo' });
+    } else if (existing && existing.unit !== ing.unit) {
+      // Recipe quantities depend on the unit, so changing it would corrupt them
+      items.push({ kind: 'ingredient', name: ing.name, action: 'conflict', reason: `Unidad distinta (${existing.unit} → ${ing.unit})` });
+    } else {
+      items.push({ kind: 'ingredient', name: ing.name, action: existing ? 'update' : 'create', existingId: existing?.id });
+    }
+  });
+
+  const availableIngredient = (name: string) =>
+    ingredients.some(i => sameName(i.name, name)) ||
+    items.some(item => item.kind === 'ingredient' && item.action !== 'conflict' && sameName(item.name, name));
+  const availableRecipe = (name: string) =>
+    recipes.some(r => sameName(r.name, name)) || data.recipes.some(r => sameName(r.name, name));
+
+  data.recipes.forEach(recipe => {
+    const existing = recipes.find(r => sameName(r.name, recipe.name));
+    const missing = [
+      ...recipe.ingredients.filter(row => !availableIngredient(row.ingredient)).map(row => row.ingredient),
+      ...recipe.components.filter(component => !availableRecipe(component.recipe)).map(component => component.recipe)
+    ];
+    if (!firstTime('recipe', recipe.name)) {
+      items.push({ kind: 'recipe', name: recipe.name, action: 'conflict', reason: 'Repetida en el archivo' });
+    } else if (missing.length > 0) {
+      items.push({ kind: 'recipe', name: recipe.name, action: 'conflict', reason: `Falta: ${missing.join(', ')}` });
+    } else {
+      items.push({ kind: 'recipe', name: recipe.name, action: existing ? 'update' : 'create', existingId: existing?.id });
+    }
+  });
+  return items;
+};
+
+export interface ResolvedImport {
+  ingredients: Ingredient[];
+  recipes: Recipe[];
+  movements: Omit<StockMovement, 'id'>[]; // Adjustments for stock levels changed by the file
+}
+
+// Full documents to write for the non-conflicting items. New documents get
+// their id from `newId` so recipes can point at ingredients created in the
+// same batch; recipe costs are worked out against the merged catalog.
+export const resolveImport = (
+  data: ImportData,
+  items: ImportItem[],
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  userId: string,
+  costing: CostingSettings,
+  newId: (collection: 'ingredients' | 'recipes') => string
+): ResolvedImport => {
+  const accepted = (kind: ImportItem['kind']) => (name: string) =>
+    items.find(item => item.kind === kind && item.action !== 'conflict' && sameName(item.name, name));
+  const acceptedIngredient = accepted('ingredient');
+  const acceptedRecipe = accepted('recipe');
+
+  const seen = new Set<string>();
+  const once = (name: string) => {
+    const key = name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+
+  const importedIngredients: Ingredient[] = data.ingredients
+    .filter(ing => acceptedIngredient(ing.name) && once(`i:${ing.name}`))
+    .map(ing => {
+      const item = acceptedIngredient(ing.name)!;
+      const existing = ingredients.find(i => i.id === item.existingId);
+      const priceChanged = !existing || existing.pricePerUnit.toFixed(4) !== ing.pricePerUnit.toFixed(4);
+      const priceHistory = existing
+        ? (priceChanged ? appendPriceEntry(existing, { date: todayISO(), pricePerUnit: ing.pricePerUnit, quantity: ing.quantity || 1, source: 'edit' }) : existing.priceHistory || [])
+        : ing.priceHistory || [{ date: todayISO(), pricePerUnit: ing.pricePerUnit, quantity: ing.quantity || 1, source: 'edit' }];
+      return { ...existing, ...ing, priceHistory, id: existing ? existing.id : newId('ingredients'), userId };
+    });
+
+  // Stock only changes through movements, so the ledger keeps adding up
+  const movements: Omit<StockMovement, 'id'>[] = importedIngredients.flatMap(ing => {
+    const previous = ingredients.find(i => i.id === ing.id)?.stock || 0;
+    const quantity = (ing.stock || 0) - previous;
+    return quantity !== 0
+      ? [{ userId, ingredientId: ing.id, type: 'adjustment' as const, quantity, date: todayISO(), createdAt: Date.now() }]
+      : [];
+  });
+  const mergedIngredients = [
+    ...ingredients.filter(i => !importedIngredients.some(n => n.id === i.id)),
+    ...importedIngredients
+  ];
+
+  // Ids first, so sub-recipes can point at recipes from the same import
+  const acceptedRecipes = data.recipes
+    .filter(recipe => acceptedRecipe(recipe.name) && once(`r:${recipe.name}`))
+    .map(recipe => ({ recipe, id: acceptedRecipe(recipe.name)!.existingId || newId('recipes') }));
+  const recipeId = (name: string) =>
+    acceptedRecipes.find(r => sameName(r.recipe.name, name))?.id || recipes.find(r => sameName(r.name, name))?.id || '';
+
+  const importedRecipes: Recipe[] = acceptedRecipes.map(({ recipe, id }) => ({
+    ...recipes.find(r => r.id === id),
+    ...recipe,
+    id,
+    userId,
+    ingredients: recipe.ingredients.map(({ ingredient, ...row }) => ({
+      ...row,
+      ingredientId: mergedIngredients.find(i => sameName(i.name, ingredient))!.id,
+      calculatedCost: 0
+    })),
+    components: recipe.components.map(component => ({
+      recipeId: recipeId(component.recipe),
+      quantityUsed: component.quantityUsed,
+      calculatedCost: 0
+    })),
+    totalCost: 0,
+    costPerGram: 0
+  }));
+  const mergedRecipes = [...recipes.filter(r => !importedRecipes.some(n => n.id === r.id)), ...importedRecipes];
+
+  return {
+    ingredients: importedIngredients,
+    recipes: importedRecipes.map(recipe => ({
+      ...recipe,
+      ...getRefreshedCostFields(recipe, calculateRecipeCost(recipe, mergedIngredients, mergedRecipes, costing))
+    })),
+    movements
+  };
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+
+export interface BarChartItem {
+  label: string;
+  value: number;
+  display: string; // Formatted value shown at the end of the bar
+}
+
+interface Props {
+  items: BarChartItem[];
+  color?: string;
+}
+
+const CHART_WIDTH = 300;
+const ROW_HEIGHT = 22;
+const LABEL_WIDTH = 110;
+const VALUE_WIDTH = 60;
+
+// Horizontal bars scaled to the largest value; negative values draw an empty bar
+const BarChart: React.FC<Props> = ({ items, color = '#f43f5e' }) => {
+  const max = Math.max(...items.map(item => item.value), 0) || 1;
+  const barSpace = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${items.length * ROW_HEIGHT}`} className="w-full">
+      {items.map((item, index) => {
+        const y = index * ROW_HEIGHT;
+        const width = (Math.max(item.value, 0) / max) * barSpace;
+        const label = item.label.length > 18 ? `${item.label.slice(0, 17)}…` : item.label;
+        return (
+          <g key={index}>
+            <text x={0} y={y + 15} fontSize={10} fill="#475569">{label}</text>
+            <rect x={LABEL_WIDTH} y={y + 4} width={width} height={ROW_HEIGHT - 8} rx={3} fill={color} />
+            <text x={LABEL_WIDTH + width + 4} y={y + 15} fontSize={10} fill="#1e293b">{item.display}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -1,17 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import { collection, query, where, onSnapshot, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { collection, query, where, onSnapshot, QuerySnapshot, DocumentData, doc, addDoc } from 'firebase/firestore';
 import { db } from '../firebase';
-import { Recipe } from '../types';
-import jsPDF from 'jspdf';
+import { Ingredient, PAYMENT_METHOD_LABELS, PaymentMethod, Recipe, Sale, SellableFormat, UserSettings } from '../types';
+import { calculateCostBreakdown, calculateRecipeCost, getPackagingCost, hasCostChanged } from '../costing';
+import { calculatePrice, getFormatPrice, getPricingLabel, resolvePricingRule } from '../pricing';
+import { getYieldUnitLabel } from '../yield';
+import { parseSettings } from '../settings';
+import { NUTRIENT_FIELDS, calculateRecipeNutrition, formatNutrient, getNetCarbs, scaleNutrition } from '../nutrition';
+import { todayISO } from '../dates';
+import { LABEL_SIZES, LabelSize, buildLabelData, generateLabelPdf, getLabelProblem } from '../label';
+import { TicketData, generateTicketPdf } from '../ticket';
+import { renderEscPosTicket, requestPrinter } from '../escpos';
+import CostBreakdownList from './CostBreakdownList';
 
 interface Props {
   userId: string;
 }
 
+interface CartItem {
+  recipeId: string;
+  quantity: number; // Grams, units or portions of the recipe's yield
+  formatId?: string;
+  count?: number; // How many of the format
+}
+
 const Calculator: React.FC<Props> = ({ userId }) => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
   const [selectedRecipeId, setSelectedRecipeId] = useState('');
   const [sellWeight, setSellWeight] = useState('');
+  const [formatId, setFormatId] = useState(''); // '' sells a custom quantity
+  const [formatCount, setFormatCount] = useState('1');
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [labelSize, setLabelSize] = useState<LabelSize>('100x60');
+  const [discount, setDiscount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [customer, setCustomer] = useState('');
+  const [recordSale, setRecordSale] = useState(true);
+  const [packagingSelection, setPackagingSelection] = useState<Record<string, number>>({});
+  const [successMsg, setSuccessMsg] = useState('');
   const [errorMsg, setErrorMsg] = useState('');
 
   useEffect(() => {
@@ -32,99 +60,186 @@ const Calculator: React.FC<Props> = ({ userId }) => {
     return () => unsubscribe();
   }, [userId]);
 
+  // Ingredients are needed to price recipes at today's costs
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setIngredients(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient)));
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
   const selectedRecipe = recipes.find(r => r.id === selectedRecipeId);
+  const liveCost = selectedRecipe ? calculateRecipeCost(selectedRecipe, ingredients, recipes, settings.costing) : null;
+
+  // Cost and price of `quantity` of a recipe, sold as `count` of a format or as a custom quantity
+  const priceLine = (recipe: Recipe, quantity: number, format?: SellableFormat, count = 1) => {
+    const breakdown = calculateCostBreakdown(recipe, ingredients, recipes, settings, quantity);
+    const rule = resolvePricingRule(recipe, settings);
+    const price = format
+      ? getFormatPrice(format, breakdown.total / count, count, rule)
+      : calculatePrice(breakdown.total, quantity, rule);
+    return { breakdown, price };
+  };
 
-  // Calculations
-  const weight = parseFloat(sellWeight) || 0;
-  const costPerGram = selectedRecipe ? selectedRecipe.costPerGram : 0;
+  const describeLine = (recipe: Recipe, quantity: number, format?: SellableFormat, count = 1) =>
+    format ? `${count} x ${format.name}` : `${quantity} ${getYieldUnitLabel(recipe)}`;
 
-  const realCost = costPerGram * weight;
-  const suggestedPrice = realCost * 3;
+  // Calculations
+  const selectedFormat = selectedRecipe?.formats?.find(f => f.id === formatId);
+  const count = Math.max(parseInt(formatCount) || 0, 0);
+  const weight = selectedFormat ? selectedFormat.quantity * count : parseFloat(sellWeight) || 0;
+  const costPerGram = liveCost ? liveCost.costPerGram : 0;
+  const unitLabel = getYieldUnitLabel(selectedRecipe);
+
+  const pricingRule = resolvePricingRule(selectedRecipe, settings);
+
+  const selectedLine = selectedRecipe && weight > 0 ? priceLine(selectedRecipe, weight, selectedFormat, count) : null;
+  const breakdown = selectedLine ? selectedLine.breakdown : null;
+  const realCost = breakdown ? breakdown.total : 0;
+  const suggestedPrice = selectedLine ? selectedLine.price : 0;
   const profit = suggestedPrice - realCost;
 
-  const generateTicket = () => {
-    if (!selectedRecipe) return;
+  const recipeNutrition = selectedRecipe ? calculateRecipeNutrition(selectedRecipe, ingredients, recipes) : null;
+  const soldNutrition = recipeNutrition ? scaleNutrition(recipeNutrition.perYieldUnit, weight) : null;
+
+  // Cart lines are priced live, so they follow ingredient and pricing changes
+  const cartLines = cart.flatMap(item => {
+    const recipe = recipes.find(r => r.id === item.recipeId);
+    if (!recipe) return [];
+    const format = recipe.formats?.find(f => f.id === item.formatId);
+    const { breakdown: lineCost, price } = priceLine(recipe, item.quantity, format, item.count);
+    return [{ recipe, quantity: item.quantity, detail: describeLine(recipe, item.quantity, format, item.count), format, cost: lineCost.total, price }];
+  });
+  const subtotal = cartLines.reduce((sum, line) => sum + line.price, 0);
+  const packagingCost = getPackagingCost(settings.packaging, packagingSelection);
+  const cartCost = cartLines.reduce((sum, line) => sum + line.cost, 0) + packagingCost;
+  const discountAmount = Math.min(Math.max(parseFloat(discount) || 0, 0), subtotal);
+  const total = subtotal - discountAmount;
+
+  const addToCart = () => {
+    if (!selectedRecipe || weight <= 0) return;
+    setCart([...cart, selectedFormat
+      ? { recipeId: selectedRecipe.id, quantity: weight, formatId: selectedFormat.id, count }
+      : { recipeId: selectedRecipe.id, quantity: weight }]);
+    selectRecipe('');
+    setSellWeight('');
+  };
 
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: [80, 150]
-    });
-
-    const drawContent = (withLogo: boolean) => {
-      // Header
-      // Adjusted Y position for larger logo
-      const headerY = withLogo ? 62 : 20;
-
-      // Shop Name
-      doc.setFontSize(14);
-      doc.setFont("helvetica", "bold");
-      doc.text("Alternativa Keto", 40, headerY, { align: "center" });
-
-      // Divider
-      doc.setFontSize(10);
-      doc.text("----------------------------------------", 40, headerY + 6, { align: "center" });
-
-      // Product Details
-      doc.setFontSize(16);
-      doc.setFont("helvetica", "bold");
-      // Increased maxWidth to avoid wrapping too early on larger text
-      doc.text(selectedRecipe.name, 40, headerY + 20, { align: "center", maxWidth: 75 });
-
-      doc.setFontSize(14);
-      doc.setFont("helvetica", "normal");
-      doc.text(`${weight} g`, 40, headerY + 30, { align: "center" });
-
-      // Price
-      doc.setFontSize(26);
-      doc.setFont("helvetica", "bold");
-      doc.text(`$${suggestedPrice.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`, 40, headerY + 48, { align: "center" });
-
-      // Footer
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "italic");
-      doc.text("¡Gracias por su compra!", 40, headerY + 68, { align: "center" });
-
-      // Instagram Icon & Handle
-      // Centering logic approx: Icon (7mm) + Gap (2mm) + Text (~35mm) = ~44mm width
-      // Start X = 40 - 22 = 18
-      const startX = 18;
-      const iconY = headerY + 72;
-      const iconSize = 7;
-
-      // Icon Background (Rounded Rect)
-      doc.setDrawColor(0);
-      doc.setLineWidth(0.4);
-      doc.roundedRect(startX, iconY, iconSize, iconSize, 2, 2, 'S');
-
-      // Inner Circle
-      doc.circle(startX + (iconSize / 2), iconY + (iconSize / 2), iconSize * 0.25, 'S');
-
-      // Dot
-      doc.circle(startX + (iconSize * 0.75), iconY + (iconSize * 0.22), 0.4, 'F');
-
-      // Text
-      doc.setFontSize(12);
-      doc.setFont("helvetica", "bold");
-      // Adjust text position relative to icon
-      doc.text("@alternativaketo", startX + iconSize + 2, iconY + 5, { align: "left" });
-
-      doc.save(`${selectedRecipe.name.replace(/\s+/g, '_')}_ticket.pdf`);
-    };
+  // Recipes with formats start on their first format instead of a raw quantity
+  const selectRecipe = (recipeId: string) => {
+    setSelectedRecipeId(recipeId);
+    const recipe = recipes.find(r => r.id === recipeId);
+    setFormatId(recipe?.formats?.[0]?.id || '');
+    setFormatCount('1');
+  };
+
+  const removeFromCart = (index: number) => {
+    const newCart = [...cart];
+    newCart.splice(index, 1);
+    setCart(newCart);
+  };
 
-    const img = new Image();
-    // Use proper base URL for GitHub Pages
-    img.src = `${import.meta.env.BASE_URL}logo.png`;
+  const resetCart = () => {
+    setCart([]);
+    setDiscount('');
+    setCustomer('');
+    setPaymentMethod('cash');
+    setPackagingSelection({});
+  };
 
-    img.onload = () => {
-      // Logo resized to 50x50mm and centered (80-50)/2 = 15
-      doc.addImage(img, 'PNG', 15, 5, 50, 50);
-      drawContent(true);
+  const saveSale = async () => {
+    const sale: Omit<Sale, 'id'> = {
+      userId,
+      items: cartLines.map(line => ({
+        recipeId: line.recipe.id,
+        recipeName: line.recipe.name,
+        quantity: line.quantity,
+        ...(line.format ? { format: line.detail } : {}),
+        cost: line.cost,
+        price: line.price
+      })),
+      subtotal,
+      discount: discountAmount,
+      total,
+      totalCost: cartCost,
+      packagingCost,
+      paymentMethod,
+      customer: customer.trim(),
+      date: todayISO(),
+      createdAt: Date.now()
     };
+    await addDoc(collection(db, 'sales'), sale);
+  };
+
+  const generateTicket = async (output: 'pdf' | 'escpos') => {
+    if (cartLines.length === 0) return;
+    setErrorMsg('');
 
-    img.onerror = () => {
-      drawContent(false);
+    const ticket: TicketData = {
+      lines: cartLines.map(line => ({ name: line.recipe.name, detail: line.detail, price: line.price })),
+      subtotal,
+      discount: discountAmount,
+      total
     };
+    const baseName = cartLines.length === 1
+      ? `${cartLines[0].recipe.name.replace(/\s+/g, '_')}_ticket`
+      : `ticket_${todayISO()}`;
+
+    // Print first: if the printer fails (or the picker is cancelled) nothing
+    // is recorded and the cart stays as is, so the user can simply retry
+    if (output === 'pdf') {
+      try {
+        await generateTicketPdf(ticket, `${baseName}.pdf`, settings.profile);
+      } catch (err) {
+        console.error(err);
+        setErrorMsg('No se pudo generar el ticket en PDF. Intenta de nuevo.');
+        return;
+      }
+    } else {
+      try {
+        const printer = await requestPrinter(settings.printer.connection, `${baseName}.bin`);
+        await printer.print(await renderEscPosTicket(ticket, settings.profile, settings.printer));
+      } catch (err) {
+        console.error(err);
+        setErrorMsg('No se pudo imprimir el ticket. Verifica la impresora o elige otra conexión en Configuración.');
+        return;
+      }
+    }
+
+    if (recordSale) {
+      try {
+        await saveSale();
+        setSuccessMsg('Venta registrada.');
+        setTimeout(() => setSuccessMsg(''), 3000);
+        resetCart();
+      } catch (err) {
+        console.error(err);
+        setErrorMsg('No se pudo registrar la venta. Verifica tu conexión.');
+      }
+    }
+  };
+
+  const generateLabel = () => {
+    if (!selectedRecipe) return;
+    const problem = getLabelProblem(selectedRecipe, ingredients, recipes, settings);
+    if (problem) {
+      setErrorMsg(problem);
+      return;
+    }
+    generateLabelPdf(buildLabelData(selectedRecipe, ingredients, recipes, weight, settings), labelSize);
   };
 
   return (
@@ -143,29 +258,73 @@ const Calculator: React.FC<Props> = ({ userId }) => {
             <label className="block text-sm font-medium text-slate-600 mb-1">Seleccionar Receta</label>
             <select
               value={selectedRecipeId}
-              onChange={(e) => setSelectedRecipeId(e.target.value)}
+              onChange={(e) => selectRecipe(e.target.value)}
               className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 bg-gray-50 text-black"
             >
               <option value="">-- Elige una preparación --</option>
               {recipes.map(r => (
-                <option key={r.id} value={r.id}>{r.name}</option>
+                <option key={r.id} value={r.id}>
+                  {r.name}{calculateRecipeCost(r, ingredients, recipes, settings.costing).missingIngredientIds.length > 0 ? ' ⚠' : ''}
+                </option>
               ))}
             </select>
           </div>
 
-          <div className="opacity-100 transition-opacity duration-300">
-            <label className="block text-sm font-medium text-slate-600 mb-1">
-              Cantidad a Vender (Peso/Unidad)
-            </label>
-            <input
-              type="number"
-              value={sellWeight}
-              onChange={(e) => setSellWeight(e.target.value)}
-              disabled={!selectedRecipeId}
-              className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-lg font-semibold bg-gray-50 disabled:bg-slate-100 text-black placeholder-gray-400"
-              placeholder="0"
-            />
-          </div>
+          {selectedRecipe?.formats && selectedRecipe.formats.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Formato</label>
+              <div className="flex flex-wrap gap-2">
+                {selectedRecipe.formats.map(format => (
+                  <button
+                    key={format.id}
+                    type="button"
+                    onClick={() => setFormatId(format.id)}
+                    className={`px-3 py-2 rounded-xl text-sm font-medium border transition ${formatId === format.id ? 'bg-rose-500 text-white border-rose-500' : 'bg-gray-50 text-slate-600 border-rose-200 hover:bg-rose-50'}`}
+                  >
+                    {format.name}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setFormatId('')}
+                  className={`px-3 py-2 rounded-xl text-sm font-medium border transition ${formatId === '' ? 'bg-rose-500 text-white border-rose-500' : 'bg-gray-50 text-slate-600 border-rose-200 hover:bg-rose-50'}`}
+                >
+                  Otra cantidad
+                </button>
+              </div>
+            </div>
+          )}
+
+          {selectedFormat ? (
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">
+                Cantidad ({selectedFormat.quantity} {unitLabel} c/u)
+              </label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={formatCount}
+                onChange={(e) => setFormatCount(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-lg font-semibold bg-gray-50 text-black placeholder-gray-400"
+                placeholder="1"
+              />
+            </div>
+          ) : (
+            <div className="opacity-100 transition-opacity duration-300">
+              <label className="block text-sm font-medium text-slate-600 mb-1">
+                Cantidad a Vender ({selectedRecipe ? unitLabel : 'Peso/Unidad'})
+              </label>
+              <input
+                type="number"
+                value={sellWeight}
+                onChange={(e) => setSellWeight(e.target.value)}
+                disabled={!selectedRecipeId}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-lg font-semibold bg-gray-50 disabled:bg-slate-100 text-black placeholder-gray-400"
+                placeholder="0"
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -175,7 +334,7 @@ const Calculator: React.FC<Props> = ({ userId }) => {
           <div className="bg-gradient-to-br from-rose-400 to-rose-600 p-6 rounded-3xl shadow-lg text-white transform transition-all duration-300 hover:scale-[1.02]">
             <div className="flex justify-between items-start">
               <div>
-                <p className="text-rose-100 text-sm font-medium mb-1">Precio Sugerido (x3)</p>
+                <p className="text-rose-100 text-sm font-medium mb-1">Precio Sugerido ({getPricingLabel(pricingRule)})</p>
                 <h3 className="text-4xl font-bold tracking-tight">${suggestedPrice.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</h3>
               </div>
               <div className="text-right opacity-80">
@@ -194,22 +353,201 @@ const Calculator: React.FC<Props> = ({ userId }) => {
           <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
             <h4 className="font-semibold text-slate-700 mb-2">Detalles de la Receta</h4>
             <div className="text-sm text-slate-600 grid grid-cols-2 gap-2">
-              <div>Yield Total: <span className="font-medium">{selectedRecipe?.totalYieldWeight}</span></div>
-              <div>Costo Total: <span className="font-medium">${selectedRecipe?.totalCost.toFixed(2)}</span></div>
-              <div className="col-span-2">Costo Base: <span className="font-medium">${selectedRecipe?.costPerGram.toFixed(4)} / gr</span></div>
+              <div>Yield Total: <span className="font-medium">{selectedRecipe?.totalYieldWeight} {unitLabel}</span></div>
+              <div>Costo Total: <span className="font-medium">${liveCost?.totalCost.toFixed(2)}</span></div>
+              <div className="col-span-2">Costo Base: <span className="font-medium">${costPerGram.toFixed(4)} / {unitLabel}</span></div>
             </div>
+            {breakdown && (
+              <div className="mt-3 pt-3 border-t border-slate-100">
+                <p className="text-xs font-semibold text-slate-500 mb-1">Desglose del costo ({weight} {unitLabel})</p>
+                <CostBreakdownList breakdown={breakdown} />
+              </div>
+            )}
+            {liveCost && liveCost.missingIngredientIds.length > 0 && (
+              <p className="mt-2 bg-red-50 border border-red-200 text-red-600 text-xs p-2 rounded-lg">
+                Esta receta usa {liveCost.missingIngredientIds.length} ingrediente(s) eliminado(s); el costo está incompleto.
+              </p>
+            )}
+            {selectedRecipe && liveCost && hasCostChanged(selectedRecipe, liveCost) && (
+              <p className="mt-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs p-2 rounded-lg">
+                El costo de ingredientes cambió desde el último guardado: ${selectedRecipe.costPerGram.toFixed(4)} → ${liveCost.costPerGram.toFixed(4)} / gr
+              </p>
+            )}
+          </div>
+
+          {/* Nutrition Card */}
+          {soldNutrition && recipeNutrition && (
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+              <h4 className="font-semibold text-slate-700 mb-2">Información Nutricional ({weight} {unitLabel})</h4>
+              <div className="text-sm text-slate-600 grid grid-cols-2 gap-2">
+                {NUTRIENT_FIELDS.map(field => (
+                  <div key={field.key}>
+                    {field.label}: <span className="font-medium">{formatNutrient(soldNutrition[field.key])} {field.unit}</span>
+                  </div>
+                ))}
+                <div className="col-span-2 text-rose-600 font-bold">
+                  Carbohidratos netos: {formatNutrient(getNetCarbs(soldNutrition))} g
+                </div>
+              </div>
+              {recipeNutrition.missingIngredientIds.length > 0 && (
+                <p className="text-xs text-slate-400 italic mt-2">
+                  Hay ingredientes sin datos nutricionales; los valores pueden estar incompletos.
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={addToCart}
+            className="w-full bg-rose-500 text-white py-3 rounded-xl font-bold shadow-md hover:bg-rose-600 transition"
+          >
+            + Agregar al Carrito
+          </button>
+
+          {/* Nutrition Label */}
+          <div className="flex gap-2">
+            <select
+              value={labelSize}
+              onChange={(e) => setLabelSize(e.target.value as LabelSize)}
+              className="flex-1 p-3 rounded-xl border border-rose-300 bg-gray-50 text-sm text-black"
+            >
+              {LABEL_SIZES.map(size => <option key={size.id} value={size.id}>{size.name}</option>)}
+            </select>
+            <button
+              onClick={generateLabel}
+              className="flex-1 bg-white text-slate-800 border border-slate-300 py-3 rounded-xl font-bold shadow-sm hover:bg-slate-50 transition"
+            >
+              Generar Etiqueta
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Cart */}
+      {cart.length > 0 && (
+        <div className="space-y-4">
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-semibold text-slate-700">Carrito ({cartLines.length})</h4>
+              <button onClick={resetCart} className="text-xs text-slate-400 hover:text-slate-600">Vaciar</button>
+            </div>
+            <ul className="divide-y divide-slate-100 text-sm">
+              {cartLines.map((line, index) => (
+                <li key={index} className="py-2 flex justify-between items-center gap-2">
+                  <div>
+                    <span className="font-medium text-slate-700">{line.recipe.name}</span>
+                    <span className="text-slate-400"> · {line.detail}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-bold">${line.price.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</span>
+                    <button onClick={() => removeFromCart(index)} className="text-red-400 hover:text-red-600 text-xs">✕</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="pt-2 mt-2 border-t border-slate-100 space-y-1 text-sm">
+              <p className="flex justify-between"><span>Subtotal:</span><span>${subtotal.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</span></p>
+              {discountAmount > 0 && (
+                <p className="flex justify-between text-slate-500"><span>Descuento:</span><span>-${discountAmount.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</span></p>
+              )}
+              <p className="flex justify-between text-lg font-bold text-rose-600"><span>Total:</span><span>${total.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</span></p>
+              <p className="flex justify-between text-xs text-slate-400">
+                <span>Costo{packagingCost > 0 ? ' (incl. packaging)' : ''}:</span>
+                <span>${cartCost.toFixed(2)}</span>
+              </p>
+            </div>
+          </div>
+
+          {/* Sale Details */}
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 space-y-3">
+            <h4 className="font-semibold text-slate-700">Datos de la Venta</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Descuento ($)</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                  className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Medio de pago</label>
+                <select
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                  className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+                >
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+                    <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-500 mb-1">Cliente (opcional)</label>
+                <input
+                  type="text"
+                  value={customer}
+                  onChange={(e) => setCustomer(e.target.value)}
+                  className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="Nombre del cliente"
+                />
+              </div>
+            </div>
+            {settings.packaging.length > 0 && (
+              <div className="space-y-2">
+                <label className="block text-xs font-medium text-slate-500">Packaging</label>
+                {settings.packaging.map(item => (
+                  <div key={item.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="number"
+                      min="0"
+                      value={packagingSelection[item.id] || ''}
+                      onChange={(e) => setPackagingSelection({ ...packagingSelection, [item.id]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-16 p-2 rounded-lg border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                      placeholder="0"
+                    />
+                    <span className="flex-1 text-slate-600">{item.name}</span>
+                    <span className="text-xs text-slate-400">${item.cost.toFixed(2)} c/u</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={recordSale}
+                onChange={(e) => setRecordSale(e.target.checked)}
+                className="accent-rose-500"
+              />
+              Registrar la venta al generar el ticket
+            </label>
           </div>
 
           {/* PDF Ticket Button */}
           <button
-            onClick={generateTicket}
+            onClick={() => generateTicket('pdf')}
             className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold shadow-md hover:bg-slate-900 transition flex items-center justify-center gap-2"
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
             </svg>
-            Generar Ticket PDF
+            {recordSale ? 'Generar Ticket y Registrar Venta' : 'Generar Ticket PDF'}
           </button>
+          <button
+            onClick={() => generateTicket('escpos')}
+            className="w-full bg-white text-slate-800 border border-slate-300 py-3 rounded-xl font-bold hover:bg-slate-50 transition"
+          >
+            {recordSale ? 'Imprimir en Térmica y Registrar Venta' : `Imprimir en Térmica (${settings.printer.width} mm)`}
+          </button>
+        </div>
+      )}
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
         </div>
       )}
     </div>
@@ -0,0 +1,30 @@
+import React from 'react';
+import { CostBreakdown } from '../costing';
+
+interface Props {
+  breakdown: CostBreakdown;
+  packaging?: number;
+}
+
+const CostBreakdownList: React.FC<Props> = ({ breakdown, packaging }) => {
+  const rows = [
+    { label: 'Ingredientes', value: breakdown.ingredients },
+    { label: 'Mano de obra', value: breakdown.labour },
+    { label: 'Energía (horno)', value: breakdown.energy },
+    { label: 'Gastos fijos', value: breakdown.overhead },
+    ...(packaging !== undefined ? [{ label: 'Packaging', value: packaging }] : [])
+  ];
+
+  return (
+    <div className="text-xs text-slate-500 space-y-0.5">
+      {rows.map(row => (
+        <p key={row.label} className="flex justify-between">
+          <span>{row.label}</span>
+          <span className="font-medium">${row.value.toFixed(2)}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default CostBreakdownList;
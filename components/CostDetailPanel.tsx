@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Ingredient, Recipe, UserSettings } from '../types';
+import { getEffectivePricePerUnit } from '../costing';
+import { getBaseUnit, getRecipeUnitLabel } from '../units';
+import { getYieldUnitLabel } from '../yield';
+import { formatAmount } from '../pdf';
+import { WhatIfScenario, getCostShares, simulateScenario } from '../whatif';
+import BarChart from './BarChart';
+
+interface Props {
+  recipe: Recipe;
+  ingredients: Ingredient[];
+  recipes: Recipe[];
+  settings: UserSettings;
+  onClose: () => void;
+}
+
+const formatChange = (from: number, to: number) => {
+  if (from <= 0 || from.toFixed(4) === to.toFixed(4)) return '';
+  const percent = (to / from - 1) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+};
+
+const CostDetailPanel: React.FC<Props> = ({ recipe, ingredients, recipes, settings, onClose }) => {
+  // Drafts are kept as typed; empty or invalid values leave the saved recipe as is
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [swaps, setSwaps] = useState<Record<number, string>>({});
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+  const shares = getCostShares(recipe, ingredients, recipes, settings);
+  const money = (value: number, decimals = 0) => formatAmount(value, settings.profile.currency, decimals);
+
+  const toNumbers = <K extends string | number>(drafts: Record<K, string>): Record<K, number> => {
+    const result = {} as Record<K, number>;
+    (Object.keys(drafts) as K[]).forEach(key => {
+      const value = parseFloat(drafts[key]);
+      if (!isNaN(value) && value >= 0) result[key] = value;
+    });
+    return result;
+  };
+  const scenario: WhatIfScenario = { prices: toNumbers(prices), swaps, quantities: toNumbers(quantities) };
+  const { before, after } = simulateScenario(recipe, ingredients, recipes, settings, scenario);
+  const hasChanges = Object.keys(scenario.prices).length + Object.keys(swaps).length + Object.keys(scenario.quantities).length > 0;
+
+  const resetScenario = () => {
+    setPrices({});
+    setSwaps({});
+    setQuantities({});
+  };
+
+  const inputClass = "w-full p-2 rounded-lg border border-rose-300 text-xs text-black bg-gray-50 placeholder-gray-400";
+  const unitLabel = getYieldUnitLabel(recipe);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-bold text-rose-500">Detalle de costo: {recipe.name}</h3>
+          <p className="text-sm text-slate-500">Peso de cada ingrediente en el costo, con precios actuales.</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold px-2">✕</button>
+      </div>
+
+      {shares.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">La receta no tiene ingredientes.</p>
+      ) : (
+        <>
+          <BarChart items={shares.map(share => ({ label: share.label, value: share.percent, display: `${share.percent.toFixed(1)}%` }))} />
+          <div className="space-y-1 text-sm">
+            {shares.map((share, index) => (
+              <p key={index} className="flex justify-between border-b border-slate-50 pb-1">
+                <span className="text-slate-700">
+                  {share.label}
+                  {share.isComponent && <span className="text-xs text-slate-400"> (sub-receta)</span>}
+                </span>
+                <span className="font-medium text-slate-800">
+                  {money(share.cost, 2)}
+                  <span className="text-xs text-slate-400 ml-2">{share.percent.toFixed(1)}%</span>
+                </span>
+              </p>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="pt-4 border-t border-slate-100 space-y-3">
+        <div className="flex justify-between items-start">
+          <div>
+            <h4 className="font-semibold text-slate-700">¿Qué pasaría si...?</h4>
+            <p className="text-xs text-slate-400">Cambia precios, reemplaza ingredientes o ajusta cantidades. No se guarda nada.</p>
+          </div>
+          {hasChanges && (
+            <button type="button" onClick={resetScenario} className="text-xs font-bold text-rose-500 hover:text-rose-600">
+              Restablecer
+            </button>
+          )}
+        </div>
+
+        {recipe.ingredients.map((item, index) => {
+          const ing = ingredients.find(i => i.id === (swaps[index] || item.ingredientId));
+          // The row quantity stays in the original's base unit, so only swaps measured the same way are offered
+          const original = ingredients.find(i => i.id === item.ingredientId);
+          const baseUnit = ing ? getRecipeUnitLabel(getBaseUnit(ing.unit)) : '';
+          return (
+            <div key={index} className="grid grid-cols-3 gap-2 items-center">
+              <select
+                value={swaps[index] || item.ingredientId}
+                onChange={(e) => {
+                  const next = { ...swaps };
+                  if (e.target.value === item.ingredientId) delete next[index];
+                  else next[index] = e.target.value;
+                  setSwaps(next);
+                }}
+                className="w-full p-2 rounded-lg border border-rose-300 text-xs text-black bg-gray-50"
+              >
+                {!ingredients.some(i => i.id === item.ingredientId) && <option value={item.ingredientId}>Ingrediente eliminado</option>}
+                {ingredients
+                  .filter(i => !i.archived || i.id === item.ingredientId)
+                  .filter(i => !original || getBaseUnit(i.unit) === getBaseUnit(original.unit))
+                  .map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+              </select>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={quantities[index] ?? ''}
+                  onChange={(e) => setQuantities({ ...quantities, [index]: e.target.value })}
+                  className={inputClass}
+                  placeholder={item.quantityUsed.toString()}
+                />
+                <span className="text-xs text-slate-400 w-6">{baseUnit}</span>
+              </div>
+              {ing ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={prices[ing.id] ?? ''}
+                    onChange={(e) => setPrices({ ...prices, [ing.id]: e.target.value })}
+                    className={inputClass}
+                    placeholder={money(getEffectivePricePerUnit(ing, settings.costing), 2)}
+                  />
+                  <span className="text-xs text-slate-400 w-6">/{ing.unit}</span>
+                </div>
+              ) : <span />}
+            </div>
+          );
+        })}
+        {Object.keys(swaps).length > 0 && (
+          <p className="text-xs text-slate-400">Al reemplazar un ingrediente se mantiene la cantidad (solo se ofrecen los que se miden en la misma unidad); ajústala si el dulzor cambia.</p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <p className="text-xs text-slate-500">Costo total</p>
+            <p className="font-bold text-slate-800">{money(after.cost, 2)}</p>
+            {hasChanges && <p className="text-xs text-slate-400">antes {money(before.cost, 2)} {formatChange(before.cost, after.cost)}</p>}
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <p className="text-xs text-slate-500">Costo / {unitLabel}</p>
+            <p className="font-bold text-slate-800">{money(after.costPerUnit, 4)}</p>
+            {hasChanges && <p className="text-xs text-slate-400">antes {money(before.costPerUnit, 4)}</p>}
+          </div>
+          <div className="bg-rose-50 p-3 rounded-xl">
+            <p className="text-xs text-rose-500">Precio sugerido</p>
+            <p className="font-bold text-rose-600">{money(after.price)}</p>
+            {hasChanges && <p className="text-xs text-slate-400">antes {money(before.price)} {formatChange(before.price, after.price)}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostDetailPanel;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { collection, query, where, onSnapshot, doc, writeBatch, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Recipe, UserSettings } from '../types';
+import { parseSettings } from '../settings';
+import { todayISO } from '../dates';
+import { downloadCsv, downloadFile } from '../csv';
+import {
+  ImportAction, ImportData, ImportItem, buildBackup, getIngredientSheet, getRecipeRowSheet, getRecipeSheet,
+  parseBackupJson, parseCsvSheets, planImport, resolveImport
+} from '../backup';
+
+interface Props {
+  userId: string;
+}
+
+// Firestore rejects batches with more than 500 writes
+const BATCH_LIMIT = 500;
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Nuevo',
+  update: 'Actualiza',
+  conflict: 'Conflicto'
+};
+
+const ACTION_CLASSES: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-sky-100 text-sky-700',
+  conflict: 'bg-red-100 text-red-600'
+};
+
+const DataTransfer: React.FC<Props> = ({ userId }) => {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+
+  const [importData, setImportData] = useState<ImportData | null>(null);
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [successMsg, setSuccessMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setIngredients(data);
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setRecipes(data);
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const exportJson = () => {
+    const backup = buildBackup(ingredients, recipes, settings);
+    downloadFile(JSON.stringify(backup, null, 2), `backup_${todayISO()}.json`, 'application/json');
+  };
+
+  const exportCsv = () => {
+    const backup = buildBackup(ingredients, recipes, settings);
+    downloadCsv(getIngredientSheet(backup), `ingredientes_${todayISO()}.csv`);
+    downloadCsv(getRecipeSheet(backup), `recetas_${todayISO()}.csv`);
+    downloadCsv(getRecipeRowSheet(backup), `recetas_filas_${todayISO()}.csv`);
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setErrorMsg('');
+
+    const texts = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+    const json = texts.find(file => file.name.toLowerCase().endsWith('.json'));
+    const data = json ? parseBackupJson(json.text) : parseCsvSheets(texts);
+    setImportData(data);
+    setIncludeSettings(false);
+  };
+
+  // Recomputed on every snapshot so the preview reflects the current catalog
+  const items: ImportItem[] = importData ? planImport(importData, ingredients, recipes) : [];
+  const count = (action: ImportAction) => items.filter(item => item.action === action).length;
+
+  const handleApply = async () => {
+    if (!importData) return;
+    setApplying(true);
+    setErrorMsg('');
+    try {
+      const resolved = resolveImport(
+        importData, items, ingredients, recipes, userId, settings.costing,
+        (name) => doc(collection(db, name)).id
+      );
+
+      const writes: { path: string; id: string; data: object }[] = [
+        ...resolved.ingredients.map(({ id, ...data }) => ({ path: 'ingredients', id, data })),
+        ...resolved.recipes.map(({ id, ...data }) => ({ path: 'recipes', id, data })),
+        ...resolved.movements.map(data => ({ path: 'stockMovements', id: doc(collection(db, 'stockMovements')).id, data })),
+        ...(includeSettings && importData.settings ? [{ path: 'settings', id: userId, data: { ...importData.settings, userId } }] : [])
+      ];
+      for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + BATCH_LIMIT).forEach(write => {
+          batch.set(doc(db, write.path, write.id), write.data, { merge: true });
+        });
+        await batch.commit();
+      }
+
+      setImportData(null);
+      setSuccessMsg(`Importados ${resolved.ingredients.length} ingrediente(s) y ${resolved.recipes.length} receta(s).`);
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al importar. Verifica tu conexión.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-bold text-rose-500">Importar / Exportar</h2>
+        <p className="text-sm text-slate-500">Backup completo en JSON, o planillas CSV de ingredientes y recetas para editar en Excel.</p>
+      </div>
+
+      {errorMsg && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg text-sm">
+          {errorMsg}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={exportJson}
+          className="py-2.5 rounded-xl font-bold text-sm bg-slate-800 text-white hover:bg-slate-900 transition"
+        >
+          Backup JSON
+        </button>
+        <button
+          type="button"
+          onClick={exportCsv}
+          className="py-2.5 rounded-xl font-bold text-sm bg-slate-100 text-slate-700 hover:bg-slate-200 transition"
+        >
+          Planillas CSV
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-1">Importar archivo</label>
+        <input type="file" accept=".json,.csv" multiple onChange={handleFiles} className="text-sm text-slate-600 w-full" />
+        <p className="text-xs text-slate-400 mt-1">Un backup .json, o las planillas .csv (recetas y sus filas se eligen juntas).</p>
+      </div>
+
+      {importData && (
+        <div className="space-y-3 pt-4 border-t border-slate-100">
+          <div className="flex gap-2 text-xs font-bold">
+            <span className={`px-2 py-1 rounded-lg ${ACTION_CLASSES.create}`}>{count('create')} nuevos</span>
+            <span className={`px-2 py-1 rounded-lg ${ACTION_CLASSES.update}`}>{count('update')} actualizaciones</span>
+            <span className={`px-2 py-1 rounded-lg ${ACTION_CLASSES.conflict}`}>{count('conflict')} conflictos</span>
+          </div>
+
+          {importData.errors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-700 text-xs p-2 rounded-lg space-y-0.5">
+              <p className="font-bold">Filas descartadas ({importData.errors.length}):</p>
+              {importData.errors.map((error, index) => <p key={index}>{error}</p>)}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <div className="max-h-64 overflow-y-auto divide-y divide-slate-100 text-sm">
+              {items.map((item, index) => (
+                <div key={index} className="flex items-center gap-2 py-1.5">
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-lg ${ACTION_CLASSES[item.action]}`}>{ACTION_LABELS[item.action]}</span>
+                  <span className="text-xs text-slate-400">{item.kind === 'ingredient' ? 'Ingrediente' : 'Receta'}</span>
+                  <span className="flex-1 text-slate-700">{item.name}</span>
+                  {item.reason && <span className="text-xs text-red-500">{item.reason}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {importData.settings && (
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={includeSettings}
+                onChange={(e) => setIncludeSettings(e.target.checked)}
+                className="accent-rose-500"
+              />
+              Reemplazar también la configuración (precios, costos, perfil del negocio)
+            </label>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={applying || (count('create') + count('update') === 0 && !includeSettings)}
+              className="flex-1 bg-rose-500 text-white py-3 rounded-xl font-bold hover:bg-rose-600 transition shadow-md disabled:opacity-50"
+            >
+              {applying ? 'Importando...' : 'Aplicar importación'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setImportData(null)}
+              className="px-4 py-3 bg-slate-200 text-slate-600 rounded-xl font-bold"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTransfer;
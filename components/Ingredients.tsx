@@ -1,7 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { collection, addDoc, query, where, onSnapshot, deleteDoc, doc, updateDoc, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { collection, addDoc, query, where, onSnapshot, deleteDoc, doc, updateDoc, writeBatch, QuerySnapshot, DocumentData } from 'firebase/firestore';
 import { db } from '../firebase';
-import { Ingredient, Unit } from '../types';
+import { ALLERGEN_LABELS, Allergen, DIETARY_TAG_LABELS, DietaryTag, Ingredient, NutritionFacts, Recipe, Supplier, Unit, UserSettings } from '../types';
+import { appendPriceEntry, calculateRecipeCost, getRecipesUsingIngredient, getRefreshedCostFields, replaceIngredientRows } from '../costing';
+import { parseSettings } from '../settings';
+import { getBaseUnit } from '../units';
+import { formatStock, isLowStock } from '../stock';
+import { todayISO } from '../dates';
+import StockPanel from './StockPanel';
+import { NUTRIENT_FIELDS } from '../nutrition';
+import { ALLERGENS, INGREDIENT_DIETARY_TAGS } from '../dietary';
+import { getIngredientCategories } from '../suppliers';
+
+type NutritionDraft = Record<keyof NutritionFacts, string>;
+
+const emptyNutritionDraft = (): NutritionDraft => ({
+  kcal: '', fat: '', protein: '', carbs: '', fiber: '', sugarAlcohols: ''
+});
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-xl text-xs font-medium border transition ${active ? 'bg-rose-500 text-white border-rose-500' : 'bg-gray-50 text-slate-600 border-rose-200 hover:bg-rose-50'}`;
 
 interface Props {
   userId: string;
@@ -9,12 +30,30 @@ interface Props {
 
 const Ingredients: React.FC<Props> = ({ userId }) => {
   const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
   const [name, setName] = useState('');
   const [unit, setUnit] = useState<Unit>(Unit.KG);
   const [quantity, setQuantity] = useState('1');
   const [price, setPrice] = useState('');
+  const [minStock, setMinStock] = useState('');
+  const [wastePercent, setWastePercent] = useState('');
+  const [density, setDensity] = useState('');
+  const [unitWeight, setUnitWeight] = useState('');
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
+  const [dietaryTags, setDietaryTags] = useState<DietaryTag[]>([]);
+  const [category, setCategory] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [supplierCode, setSupplierCode] = useState('');
+  const [nutrition, setNutrition] = useState<NutritionDraft>(emptyNutritionDraft());
+  const [showNutrition, setShowNutrition] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [error, setError] = useState('');
+  // Ingredient whose deletion is blocked because recipes still use it
+  const [deleting, setDeleting] = useState<Ingredient | null>(null);
+  const [replacementId, setReplacementId] = useState('');
+  const [stockIngredientId, setStockIngredientId] = useState<string | null>(null);
 
   useEffect(() => {
     const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
@@ -34,6 +73,42 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
     return () => unsubscribe();
   }, [userId]);
 
+  // Recipes are needed to know which ones use an ingredient before deleting it
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setRecipes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe)));
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'suppliers'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Supplier));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setSuppliers(data);
+      },
+      (err) => console.error("Error loading suppliers:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Costing method, to refresh recipe costs when an ingredient is replaced
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -55,11 +130,44 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
       const qty = parseFloat(quantity) || 1;
       const totalPkgPrice = parseFloat(price);
 
+      // Only store nutrition when at least one value was entered
+      const hasNutrition = Object.values(nutrition).some((v: string) => v.trim() !== '');
+      const nutritionData: NutritionFacts | null = hasNutrition
+        ? {
+            kcal: parseFloat(nutrition.kcal) || 0,
+            fat: parseFloat(nutrition.fat) || 0,
+            protein: parseFloat(nutrition.protein) || 0,
+            carbs: parseFloat(nutrition.carbs) || 0,
+            fiber: parseFloat(nutrition.fiber) || 0,
+            sugarAlcohols: parseFloat(nutrition.sugarAlcohols) || 0
+          }
+        : null;
+
+      const pricePerUnit = totalPkgPrice / qty;
+
+      // Keep a dated entry every time the price changes
+      const existing = ingredients.find(i => i.id === editingId);
+      const priceChanged = !existing || existing.pricePerUnit.toFixed(4) !== pricePerUnit.toFixed(4);
+      const priceHistory = priceChanged
+        ? appendPriceEntry(existing, { date: todayISO(), pricePerUnit, quantity: qty, source: 'edit' })
+        : existing?.priceHistory || [];
+
       const ingredientData = {
         name: trimmedName,
         unit,
         quantity: qty,
-        pricePerUnit: totalPkgPrice / qty,
+        pricePerUnit,
+        priceHistory,
+        nutrition: nutritionData,
+        minStock: parseFloat(minStock) || 0,
+        wastePercent: Math.min(Math.max(parseFloat(wastePercent) || 0, 0), 95),
+        density: parseFloat(density) || 0,
+        unitWeight: parseFloat(unitWeight) || 0,
+        allergens,
+        dietaryTags,
+        category: category.trim(),
+        supplierId,
+        supplierCode: supplierCode.trim(),
         userId
       };
 
@@ -88,13 +196,44 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
     setQuantity(qty.toString());
     // Show total package price (unit price * count)
     setPrice((ing.pricePerUnit * qty).toString());
+    setMinStock(ing.minStock ? ing.minStock.toString() : '');
+    setWastePercent(ing.wastePercent ? ing.wastePercent.toString() : '');
+    setDensity(ing.density ? ing.density.toString() : '');
+    setUnitWeight(ing.unitWeight ? ing.unitWeight.toString() : '');
+    setAllergens(ing.allergens || []);
+    setDietaryTags(ing.dietaryTags || []);
+    setCategory(ing.category || '');
+    setSupplierId(ing.supplierId || '');
+    setSupplierCode(ing.supplierCode || '');
+    if (ing.nutrition) {
+      const facts = ing.nutrition;
+      setNutrition({
+        kcal: facts.kcal.toString(),
+        fat: facts.fat.toString(),
+        protein: facts.protein.toString(),
+        carbs: facts.carbs.toString(),
+        fiber: facts.fiber.toString(),
+        sugarAlcohols: facts.sugarAlcohols.toString()
+      });
+      setShowNutrition(true);
+    } else {
+      setNutrition(emptyNutritionDraft());
+      setShowNutrition(false);
+    }
     setEditingId(ing.id);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (ing: Ingredient) => {
+    const usedBy = getRecipesUsingIngredient(ing.id, recipes);
+    if (usedBy.length > 0) {
+      setDeleting(ing);
+      setReplacementId('');
+      return;
+    }
+
     if (window.confirm('¿Eliminar este ingrediente?')) {
       try {
-        await deleteDoc(doc(db, 'ingredients', id));
+        await deleteDoc(doc(db, 'ingredients', ing.id));
       } catch (err) {
         console.error(err);
         setError('No se pudo eliminar. Permisos insuficientes.');
@@ -102,15 +241,66 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
     }
   };
 
+  // Points every recipe using the ingredient being deleted at the replacement,
+  // with its costs refreshed, then deletes it
+  const handleReplaceAndDelete = async () => {
+    if (!deleting || !replacementId) return;
+    try {
+      const batch = writeBatch(db);
+      const remaining = ingredients.filter(i => i.id !== deleting.id);
+      const updated = recipes.map(recipe =>
+        recipe.ingredients.some(item => item.ingredientId === deleting.id)
+          ? { ...recipe, ingredients: replaceIngredientRows(recipe.ingredients, deleting.id, replacementId, ingredients) }
+          : recipe
+      );
+      getRecipesUsingIngredient(deleting.id, recipes).forEach(original => {
+        const recipe = updated.find(r => r.id === original.id) || original;
+        const live = calculateRecipeCost(recipe, remaining, updated, settings.costing);
+        batch.update(doc(db, 'recipes', recipe.id), getRefreshedCostFields(recipe, live));
+      });
+      batch.delete(doc(db, 'ingredients', deleting.id));
+      await batch.commit();
+      setDeleting(null);
+    } catch (err) {
+      console.error(err);
+      setError('No se pudo reemplazar el ingrediente. Permisos insuficientes.');
+    }
+  };
+
+  const handleArchive = async (ing: Ingredient, archived: boolean) => {
+    try {
+      await updateDoc(doc(db, 'ingredients', ing.id), { archived });
+      setDeleting(null);
+    } catch (err) {
+      console.error(err);
+      setError('No se pudo archivar. Permisos insuficientes.');
+    }
+  };
+
   const resetForm = () => {
     setName('');
     setUnit(Unit.KG);
     setQuantity('1');
     setPrice('');
+    setMinStock('');
+    setWastePercent('');
+    setDensity('');
+    setUnitWeight('');
+    setAllergens([]);
+    setDietaryTags([]);
+    setCategory('');
+    setSupplierId('');
+    setSupplierCode('');
+    setNutrition(emptyNutritionDraft());
+    setShowNutrition(false);
     setEditingId(null);
     setError('');
   };
 
+  const stockIngredient = ingredients.find(i => i.id === stockIngredientId);
+  const replacement = ingredients.find(i => i.id === replacementId);
+  const replacementUnitChanges = !!deleting && !!replacement && getBaseUnit(deleting.unit) !== getBaseUnit(replacement.unit);
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100">
@@ -164,6 +354,145 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Stock mínimo ({unit})</label>
+              <input
+                type="number"
+                step="any"
+                value={minStock}
+                onChange={(e) => setMinStock(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Opcional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Merma (%)</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                max="95"
+                value={wastePercent}
+                onChange={(e) => setWastePercent(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Cáscaras, descarte"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Densidad (g/ml)</label>
+              <input
+                type="number"
+                step="any"
+                value={density}
+                onChange={(e) => setDensity(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Para tazas y cucharadas"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Peso por unidad (g)</label>
+              <input
+                type="number"
+                step="any"
+                value={unitWeight}
+                onChange={(e) => setUnitWeight(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Ej. 1 huevo = 50"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Categoría</label>
+              <input
+                type="text"
+                list="ingredient-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Ej. Harinas"
+              />
+              <datalist id="ingredient-categories">
+                {getIngredientCategories(ingredients).map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Proveedor</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 bg-gray-50 text-black"
+              >
+                <option value="">Sin proveedor</option>
+                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Código prov.</label>
+              <input
+                type="text"
+                value={supplierCode}
+                onChange={(e) => setSupplierCode(e.target.value)}
+                className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Opcional"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Alérgenos</label>
+            <div className="flex flex-wrap gap-2">
+              {ALLERGENS.map(a => (
+                <button key={a} type="button" onClick={() => setAllergens(toggle(allergens, a))} className={chipClass(allergens.includes(a))}>
+                  {ALLERGEN_LABELS[a]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Apto para</label>
+            <div className="flex flex-wrap gap-2">
+              {INGREDIENT_DIETARY_TAGS.map(tag => (
+                <button key={tag} type="button" onClick={() => setDietaryTags(toggle(dietaryTags, tag))} className={chipClass(dietaryTags.includes(tag))}>
+                  {DIETARY_TAG_LABELS[tag]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-1">Keto se calcula en cada receta a partir de la información nutricional.</p>
+          </div>
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowNutrition(!showNutrition)}
+              className="text-sm font-medium text-rose-500 hover:text-rose-600"
+            >
+              {showNutrition ? '−' : '+'} Información nutricional (opcional)
+            </button>
+            {showNutrition && (
+              <div className="mt-3 space-y-2">
+                <p className="text-xs text-slate-400">
+                  Valores {unit === Unit.UN ? 'por unidad' : `cada 100 ${unit === Unit.LT ? 'ml' : 'g'}`}
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {NUTRIENT_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">{field.label} ({field.unit})</label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={nutrition[field.key]}
+                        onChange={(e) => setNutrition({ ...nutrition, [field.key]: e.target.value })}
+                        className="w-full p-2 rounded-lg border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                        placeholder="0"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
           {error && <div className="bg-red-50 text-red-500 p-3 rounded-lg text-sm border border-red-100">{error}</div>}
           <div className="flex gap-2 pt-2">
             <button
@@ -185,22 +514,116 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
         </form>
       </div>
 
+      {stockIngredient && (
+        <StockPanel userId={userId} ingredient={stockIngredient} onClose={() => setStockIngredientId(null)} />
+      )}
+
+      {deleting && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-red-200 space-y-4">
+          <div>
+            <h3 className="text-lg font-bold text-red-500">No se puede eliminar "{deleting.name}"</h3>
+            <p className="text-sm text-slate-600">Se usa en estas recetas:</p>
+            <ul className="list-disc pl-5 text-sm text-slate-700 mt-1">
+              {getRecipesUsingIngredient(deleting.id, recipes).map(r => <li key={r.id}>{r.name}</li>)}
+            </ul>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={replacementId}
+              onChange={(e) => setReplacementId(e.target.value)}
+              className="flex-1 p-2.5 rounded-xl border border-rose-300 bg-gray-50 text-sm text-black"
+            >
+              <option value="">Reemplazar por...</option>
+              {ingredients.filter(i => i.id !== deleting.id && !i.archived).map(i => (
+                <option key={i.id} value={i.id}>{i.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleReplaceAndDelete}
+              disabled={!replacementId}
+              className="px-4 py-2 bg-rose-500 text-white rounded-xl font-bold text-sm disabled:opacity-50"
+            >
+              Reemplazar y eliminar
+            </button>
+          </div>
+          {replacementUnitChanges && (
+            <p className="text-xs text-amber-600">El reemplazo se mide en otra unidad: se mantiene la cantidad, revísala en cada receta.</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleArchive(deleting, true)}
+              className="flex-1 py-2 bg-amber-100 text-amber-700 rounded-xl font-bold text-sm"
+            >
+              Archivar (mantener en recetas)
+            </button>
+            <button
+              type="button"
+              onClick={() => setDeleting(null)}
+              className="flex-1 py-2 bg-slate-200 text-slate-600 rounded-xl font-bold text-sm"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-3">
         <h3 className="text-lg font-semibold text-slate-700 pl-1">Inventario ({ingredients.length})</h3>
+        {ingredients.some(isLowStock) && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-700 p-3 rounded-lg text-sm">
+            Stock bajo: {ingredients.filter(isLowStock).map(i => i.name).join(', ')}
+          </div>
+        )}
         {ingredients.length === 0 ? (
           <p className="text-slate-400 text-center py-8">
             {error ? 'No se pudieron cargar datos.' : 'No hay ingredientes registrados.'}
           </p>
         ) : (
           ingredients.map(ing => (
-            <div key={ing.id} className="bg-white p-4 rounded-xl shadow-sm border-l-4 border-rose-300 flex justify-between items-center">
+            <div key={ing.id} className={`bg-white p-4 rounded-xl shadow-sm border-l-4 flex justify-between items-center ${ing.archived ? 'border-slate-300 opacity-60' : 'border-rose-300'}`}>
               <div>
-                <h4 className="font-bold text-slate-800">{ing.name}</h4>
+                <h4 className="font-bold text-slate-800">
+                  {ing.name}
+                  {ing.archived && <span className="ml-2 text-xs font-medium bg-slate-100 text-slate-500 px-2 py-0.5 rounded">Archivado</span>}
+                </h4>
                 <p className="text-sm text-slate-500">
                   ${ing.pricePerUnit.toLocaleString()} / {ing.unit}
+                  {ing.wastePercent ? <span className="text-xs text-slate-400"> · Merma {ing.wastePercent}%</span> : null}
+                </p>
+                {(ing.category || ing.supplierId) && (
+                  <p className="text-xs text-slate-400">
+                    {[ing.category, suppliers.find(s => s.id === ing.supplierId)?.name].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                <p className={`text-xs ${isLowStock(ing) ? 'text-red-500 font-bold' : 'text-slate-400'}`}>
+                  Stock: {formatStock(ing.stock || 0)} {ing.unit}{isLowStock(ing) ? ' · ¡Stock bajo!' : ''}
                 </p>
+                {(ing.allergens || []).length > 0 && (
+                  <p className="text-xs text-amber-700">Contiene: {(ing.allergens || []).map(a => ALLERGEN_LABELS[a]).join(', ')}</p>
+                )}
+                {ing.nutrition && (
+                  <p className="text-xs text-slate-400">
+                    {ing.nutrition.kcal} kcal · {ing.nutrition.carbs} g carbs {ing.unit === Unit.UN ? 'por unidad' : `cada 100 ${ing.unit === Unit.LT ? 'ml' : 'g'}`}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
+                {ing.archived && (
+                  <button
+                    onClick={() => handleArchive(ing, false)}
+                    className="px-3 text-xs font-bold text-slate-600 bg-slate-100 rounded-lg hover:bg-slate-200"
+                  >
+                    Restaurar
+                  </button>
+                )}
+                <button
+                  onClick={() => setStockIngredientId(ing.id)}
+                  className="px-3 text-xs font-bold text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100"
+                >
+                  Stock y precios
+                </button>
                 <button
                   onClick={() => handleEdit(ing)}
                   className="p-2 text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100"
@@ -210,7 +633,7 @@ const Ingredients: React.FC<Props> = ({ userId }) => {
                   </svg>
                 </button>
                 <button
-                  onClick={() => handleDelete(ing.id)}
+                  onClick={() => handleDelete(ing)}
                   className="p-2 text-red-500 bg-red-50 rounded-lg hover:bg-red-100"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -0,0 +1,484 @@
+import React, { useState, useEffect } from 'react';
+import { collection, addDoc, query, where, onSnapshot, deleteDoc, doc, updateDoc, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Order, OrderItem, OrderStatus, ORDER_STATUS_LABELS, Recipe, UserSettings } from '../types';
+import { calculateCostBreakdown } from '../costing';
+import { calculatePrice, resolvePricingRule } from '../pricing';
+import { parseSettings } from '../settings';
+import { addDaysISO, formatDayLabel, startOfWeekISO, todayISO } from '../dates';
+
+interface Props {
+  userId: string;
+}
+
+interface LocalOrderItem {
+  recipeId: string;
+  quantity: string;
+}
+
+interface LocalOrderExtra {
+  description: string;
+  amount: string;
+}
+
+type View = 'list' | 'week' | 'day';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  inProduction: 'bg-blue-100 text-blue-700',
+  ready: 'bg-green-100 text-green-700',
+  delivered: 'bg-slate-100 text-slate-500'
+};
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+// Orders for a day, earliest delivery first
+const ordersForDay = (orders: Order[], day: string) =>
+  orders
+    .filter(o => o.deliveryDate === day)
+    .sort((a, b) => (a.deliveryTime || '').localeCompare(b.deliveryTime || ''));
+
+// Total grams/units of each recipe to bake for a set of orders
+const getBakingList = (orders: Order[]) => {
+  const totals = new Map<string, number>();
+  orders.forEach(order => order.items.forEach(item => {
+    totals.set(item.recipeName, (totals.get(item.recipeName) || 0) + item.quantity);
+  }));
+  return Array.from(totals.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+};
+
+const Orders: React.FC<Props> = ({ userId }) => {
+  // Data States
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+
+  // Form States
+  const [customer, setCustomer] = useState('');
+  const [items, setItems] = useState<LocalOrderItem[]>([]);
+  const [extras, setExtras] = useState<LocalOrderExtra[]>([]);
+  const [deliveryDate, setDeliveryDate] = useState(todayISO());
+  const [deliveryTime, setDeliveryTime] = useState('');
+  const [deposit, setDeposit] = useState('');
+  const [notes, setNotes] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // View States
+  const [view, setView] = useState<View>('week');
+  const [anchorDate, setAnchorDate] = useState(todayISO());
+  const [showDelivered, setShowDelivered] = useState(false);
+
+  // Feedback States
+  const [successMsg, setSuccessMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'orders'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Order));
+        data.sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate) || (a.deliveryTime || '').localeCompare(b.deliveryTime || ''));
+        setOrders(data);
+      },
+      (err) => {
+        console.error("Firestore Error:", err);
+        setErrorMsg("Error al cargar pedidos. Verifica permisos de Firebase.");
+      }
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setRecipes(data);
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setIngredients(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient)));
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const pricedItems: OrderItem[] = items.flatMap(item => {
+    const recipe = recipes.find(r => r.id === item.recipeId);
+    const quantity = parseFloat(item.quantity);
+    if (!recipe || isNaN(quantity) || quantity <= 0) return [];
+    const cost = calculateCostBreakdown(recipe, ingredients, recipes, settings, quantity).total;
+    return [{
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      quantity,
+      price: calculatePrice(cost, quantity, resolvePricingRule(recipe, settings))
+    }];
+  });
+  const parsedExtras = extras
+    .filter(extra => extra.description.trim())
+    .map(extra => ({ description: extra.description.trim(), amount: parseFloat(extra.amount) || 0 }));
+  const formTotal = pricedItems.reduce((sum, i) => sum + i.price, 0) + parsedExtras.reduce((sum, e) => sum + e.amount, 0);
+
+  const updateItem = (index: number, field: keyof LocalOrderItem, value: string) => {
+    const newList = [...items];
+    newList[index] = { ...newList[index], [field]: value };
+    setItems(newList);
+  };
+
+  const updateExtra = (index: number, field: keyof LocalOrderExtra, value: string) => {
+    const newList = [...extras];
+    newList[index] = { ...newList[index], [field]: value };
+    setExtras(newList);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg('');
+
+    if (!customer.trim() || pricedItems.length === 0 || !deliveryDate) {
+      setErrorMsg('Ingresa el cliente, la fecha de entrega y al menos un producto.');
+      return;
+    }
+
+    const orderData = {
+      userId,
+      customer: customer.trim(),
+      items: pricedItems,
+      extras: parsedExtras,
+      total: formTotal,
+      deposit: parseFloat(deposit) || 0,
+      deliveryDate,
+      deliveryTime,
+      notes: notes.trim()
+    };
+
+    try {
+      if (editingId) {
+        await updateDoc(doc(db, 'orders', editingId), orderData);
+        setSuccessMsg('Pedido actualizado.');
+      } else {
+        await addDoc(collection(db, 'orders'), { ...orderData, status: 'pending', createdAt: Date.now() });
+        setSuccessMsg('Pedido creado.');
+      }
+      resetForm();
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al guardar. Verifica tu conexión.');
+    }
+  };
+
+  const handleEdit = (order: Order) => {
+    setCustomer(order.customer);
+    setItems(order.items.map(i => ({ recipeId: i.recipeId, quantity: i.quantity.toString() })));
+    setExtras(order.extras.map(e => ({ description: e.description, amount: e.amount.toString() })));
+    setDeliveryDate(order.deliveryDate);
+    setDeliveryTime(order.deliveryTime || '');
+    setDeposit(order.deposit ? order.deposit.toString() : '');
+    setNotes(order.notes || '');
+    setEditingId(order.id);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('¿Eliminar este pedido?')) return;
+    try {
+      await deleteDoc(doc(db, 'orders', id));
+      if (editingId === id) resetForm();
+    } catch (err) {
+      console.error(err);
+      alert('Error al eliminar el pedido.');
+    }
+  };
+
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    try {
+      await updateDoc(doc(db, 'orders', order.id), { status });
+    } catch (err) {
+      console.error(err);
+      alert('Error al cambiar el estado.');
+    }
+  };
+
+  const resetForm = () => {
+    setCustomer('');
+    setItems([]);
+    setExtras([]);
+    setDeliveryDate(todayISO());
+    setDeliveryTime('');
+    setDeposit('');
+    setNotes('');
+    setEditingId(null);
+    setShowForm(false);
+    setErrorMsg('');
+  };
+
+  const visibleOrders = orders.filter(o => showDelivered || o.status !== 'delivered');
+  const weekStart = startOfWeekISO(anchorDate);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDaysISO(i, weekStart));
+  const dayOrders = ordersForDay(visibleOrders, anchorDate);
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+  const renderOrderCard = (order: Order) => (
+    <div key={order.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 space-y-2">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <h4 className="font-bold text-slate-800">{order.customer}</h4>
+          <p className="text-xs text-slate-400">
+            {formatDayLabel(order.deliveryDate)}{order.deliveryTime ? ` · ${order.deliveryTime} hs` : ''}
+          </p>
+        </div>
+        <select
+          value={order.status}
+          onChange={(e) => handleStatusChange(order, e.target.value as OrderStatus)}
+          className={`text-xs font-bold px-2 py-1 rounded-lg border-0 ${STATUS_STYLES[order.status]}`}
+        >
+          {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(s => (
+            <option key={s} value={s}>{ORDER_STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+      </div>
+      <ul className="text-sm text-slate-600">
+        {order.items.map((item, index) => (
+          <li key={index}>{item.recipeName} · {item.quantity} gr/un</li>
+        ))}
+        {order.extras.map((extra, index) => (
+          <li key={`extra-${index}`} className="text-slate-400">{extra.description}</li>
+        ))}
+      </ul>
+      <div className="grid grid-cols-3 gap-1 text-xs text-center">
+        <div className="bg-slate-50 rounded p-1">Total<span className="block font-bold text-slate-700">{formatMoney(order.total)}</span></div>
+        <div className="bg-slate-50 rounded p-1">Seña<span className="block font-bold text-slate-700">{formatMoney(order.deposit)}</span></div>
+        <div className="bg-rose-50 rounded p-1 text-rose-600">Saldo<span className="block font-bold">{formatMoney(order.total - order.deposit)}</span></div>
+      </div>
+      {order.notes && <p className="text-xs text-slate-500 italic">{order.notes}</p>}
+      <div className="flex gap-2 pt-2 border-t border-slate-50">
+        <button onClick={() => handleEdit(order)} className="flex-1 py-1.5 text-xs font-semibold text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100">Editar</button>
+        <button onClick={() => handleDelete(order.id)} className="flex-1 py-1.5 text-xs font-semibold text-red-500 bg-red-50 rounded-lg hover:bg-red-100">Eliminar</button>
+      </div>
+    </div>
+  );
+
+  const renderBakingList = (dayOrders: Order[]) => {
+    const list = getBakingList(dayOrders.filter(o => o.status === 'pending' || o.status === 'inProduction'));
+    if (list.length === 0) return null;
+    return (
+      <div className="bg-rose-50 p-3 rounded-xl text-sm">
+        <p className="font-semibold text-rose-600 mb-1">A hornear</p>
+        {list.map(([name, quantity]) => (
+          <p key={name} className="flex justify-between text-slate-700"><span>{name}</span><span className="font-medium">{quantity} gr/un</span></p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      {/* FORM SECTION */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold text-rose-500">
+            {editingId ? 'Editar Pedido' : 'Pedidos'}
+          </h2>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200">
+              + Nuevo Pedido
+            </button>
+          )}
+        </div>
+
+        {errorMsg && (
+          <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg mt-4 text-sm">
+            {errorMsg}
+          </div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-5 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Cliente</label>
+              <input type="text" value={customer} onChange={(e) => setCustomer(e.target.value)} className={inputClass} placeholder="Nombre y teléfono" required />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Fecha de entrega</label>
+                <input type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} className={inputClass} required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Hora</label>
+                <input type="time" value={deliveryTime} onChange={(e) => setDeliveryTime(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-slate-600">Productos</label>
+                <button
+                  type="button"
+                  onClick={() => setItems([...items, { recipeId: '', quantity: '' }])}
+                  className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+                >
+                  + Agregar
+                </button>
+              </div>
+              {items.map((row, index) => (
+                <div key={index} className="flex gap-2 items-start">
+                  <select value={row.recipeId} onChange={(e) => updateItem(index, 'recipeId', e.target.value)} className={`${inputClass} flex-1`} required>
+                    <option value="">Seleccionar receta...</option>
+                    {recipes.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                  </select>
+                  <input type="number" value={row.quantity} onChange={(e) => updateItem(index, 'quantity', e.target.value)} className={`${inputClass} w-28`} placeholder="gr/un" required />
+                  <button type="button" onClick={() => setItems(items.filter((_, i) => i !== index))} className="p-2 text-red-400 hover:text-red-600">✕</button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <label className="block text-sm font-medium text-slate-600">Adicionales</label>
+                <button
+                  type="button"
+                  onClick={() => setExtras([...extras, { description: '', amount: '' }])}
+                  className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+                >
+                  + Agregar
+                </button>
+              </div>
+              {extras.map((row, index) => (
+                <div key={index} className="flex gap-2 items-start">
+                  <input type="text" value={row.description} onChange={(e) => updateExtra(index, 'description', e.target.value)} className={`${inputClass} flex-1`} placeholder="Descripción" />
+                  <input type="number" step="any" value={row.amount} onChange={(e) => updateExtra(index, 'amount', e.target.value)} className={`${inputClass} w-28`} placeholder="Monto" />
+                  <button type="button" onClick={() => setExtras(extras.filter((_, i) => i !== index))} className="p-2 text-red-400 hover:text-red-600">✕</button>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">Seña pagada</label>
+                <input type="number" step="any" value={deposit} onChange={(e) => setDeposit(e.target.value)} className={inputClass} placeholder="0" />
+              </div>
+              <div className="bg-rose-50 p-2 rounded-xl text-sm">
+                <p className="flex justify-between"><span>Total:</span><span className="font-bold">{formatMoney(formTotal)}</span></p>
+                <p className="flex justify-between text-rose-600"><span>Saldo:</span><span className="font-bold">{formatMoney(formTotal - (parseFloat(deposit) || 0))}</span></p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Notas</label>
+              <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} rows={2} placeholder="Dedicatoria, diseño, dirección de entrega..." />
+            </div>
+
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 bg-rose-500 text-white py-3 rounded-xl font-bold hover:bg-rose-600 transition shadow-md">
+                {editingId ? 'Actualizar Pedido' : 'Guardar Pedido'}
+              </button>
+              <button type="button" onClick={resetForm} className="px-6 py-3 bg-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-300 transition">
+                Cancelar
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* VIEW SELECTOR */}
+      <div className="flex justify-between items-center gap-2">
+        <div className="flex gap-1 bg-white p-1 rounded-xl border border-slate-100">
+          {(['week', 'day', 'list'] as View[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1.5 rounded-lg text-sm ${view === v ? 'bg-rose-100 text-rose-700 font-bold' : 'text-slate-500'}`}
+            >
+              {v === 'week' ? 'Semana' : v === 'day' ? 'Día' : 'Lista'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          <input type="checkbox" checked={showDelivered} onChange={(e) => setShowDelivered(e.target.checked)} className="accent-rose-500" />
+          Ver entregados
+        </label>
+      </div>
+
+      {view !== 'list' && (
+        <div className="flex justify-between items-center">
+          <button onClick={() => setAnchorDate(addDaysISO(view === 'week' ? -7 : -1, anchorDate))} className="px-3 py-1 text-rose-500 font-bold">‹</button>
+          <button onClick={() => setAnchorDate(todayISO())} className="text-sm font-semibold text-slate-700">
+            {view === 'week' ? `${formatDayLabel(weekDays[0])} – ${formatDayLabel(weekDays[6])}` : formatDayLabel(anchorDate)}
+          </button>
+          <button onClick={() => setAnchorDate(addDaysISO(view === 'week' ? 7 : 1, anchorDate))} className="px-3 py-1 text-rose-500 font-bold">›</button>
+        </div>
+      )}
+
+      {view === 'week' && (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {weekDays.map(day => {
+            const ordersOfDay = ordersForDay(visibleOrders, day);
+            return (
+              <button
+                key={day}
+                onClick={() => { setAnchorDate(day); setView('day'); }}
+                className={`text-left bg-white p-3 rounded-xl border ${day === todayISO() ? 'border-rose-400' : 'border-slate-100'} hover:shadow-md transition min-h-[5rem]`}
+              >
+                <p className="text-xs font-bold text-slate-500 capitalize">{formatDayLabel(day)}</p>
+                {ordersOfDay.map(order => (
+                  <p key={order.id} className={`mt-1 text-xs px-1.5 py-0.5 rounded truncate ${STATUS_STYLES[order.status]}`}>
+                    {order.deliveryTime ? `${order.deliveryTime} ` : ''}{order.customer}
+                  </p>
+                ))}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {view === 'day' && (
+        <div className="space-y-3">
+          {renderBakingList(dayOrders)}
+          {dayOrders.length === 0
+            ? <p className="text-center text-slate-400 py-8 italic">No hay pedidos para este día.</p>
+            : dayOrders.map(renderOrderCard)}
+        </div>
+      )}
+
+      {view === 'list' && (
+        <div className="space-y-3">
+          {visibleOrders.length === 0
+            ? <p className="text-center text-slate-400 py-8 italic">No hay pedidos.</p>
+            : visibleOrders.map(renderOrderCard)}
+        </div>
+      )}
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Orders;
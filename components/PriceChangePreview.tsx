@@ -0,0 +1,97 @@
+import React from 'react';
+import { Ingredient, Recipe, UserSettings } from '../types';
+import { PriceChange, previewRecipeChanges } from '../suppliers';
+import { getYieldUnitLabel } from '../yield';
+import { formatAmount } from '../pdf';
+
+interface Props {
+  changes: PriceChange[];
+  ingredients: Ingredient[];
+  recipes: Recipe[];
+  settings: UserSettings;
+  applying: boolean;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const formatPercent = (from: number, to: number) => {
+  if (from <= 0) return '';
+  const percent = (to / from - 1) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+};
+
+const PriceChangePreview: React.FC<Props> = ({ changes, ingredients, recipes, settings, applying, onApply, onCancel }) => {
+  const recipeChanges = previewRecipeChanges(changes, ingredients, recipes, settings);
+  const money = (value: number, decimals = 0) => formatAmount(value, settings.profile.currency, decimals);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+      <div>
+        <h2 className="text-xl font-bold text-rose-500">Vista previa</h2>
+        <p className="text-sm text-slate-500">Nada se guarda hasta que confirmes.</p>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold text-slate-700 mb-2">Ingredientes ({changes.length})</h3>
+        <div className="max-h-64 overflow-y-auto divide-y divide-slate-100 text-sm">
+          {changes.map(change => {
+            const ing = ingredients.find(i => i.id === change.ingredientId);
+            if (!ing) return null;
+            return (
+              <div key={change.ingredientId} className="flex justify-between gap-2 py-1.5">
+                <span className="text-slate-700">{ing.name}</span>
+                <span className="text-slate-500 text-right">
+                  {money(ing.pricePerUnit, 2)} → <span className="font-bold text-slate-800">{money(change.pricePerUnit, 2)}</span> / {ing.unit}
+                  <span className="ml-2 text-xs">{formatPercent(ing.pricePerUnit, change.pricePerUnit)}</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold text-slate-700 mb-2">Recetas afectadas ({recipeChanges.length})</h3>
+        {recipeChanges.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Ninguna receta cambia de costo.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y divide-slate-100 text-sm">
+            {recipeChanges.map(preview => (
+              <div key={preview.recipe.id} className="py-1.5">
+                <p className="font-medium text-slate-700">{preview.recipe.name}</p>
+                <p className="flex justify-between text-xs text-slate-500">
+                  <span>Costo: {money(preview.oldCostPerGram, 4)} → {money(preview.newCostPerGram, 4)} / {getYieldUnitLabel(preview.recipe)}</span>
+                  <span>{formatPercent(preview.oldCostPerGram, preview.newCostPerGram)}</span>
+                </p>
+                <p className="flex justify-between text-xs text-slate-500">
+                  <span>Precio sugerido: {money(preview.oldPrice)} → <span className="font-bold text-rose-600">{money(preview.newPrice)}</span></span>
+                  <span>{formatPercent(preview.oldPrice, preview.newPrice)}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={applying || changes.length === 0}
+          className="flex-1 bg-rose-500 text-white py-3 rounded-xl font-bold hover:bg-rose-600 transition shadow-md disabled:opacity-50"
+        >
+          {applying ? 'Guardando...' : `Aplicar a ${changes.length} ingrediente(s)`}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-3 bg-slate-200 text-slate-600 rounded-xl font-bold"
+        >
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PriceChangePreview;
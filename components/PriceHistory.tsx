@@ -0,0 +1,88 @@
+import React from 'react';
+import { Ingredient } from '../types';
+
+interface Props {
+  ingredient: Ingredient;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const PADDING = 8;
+
+const PriceHistory: React.FC<Props> = ({ ingredient }) => {
+  const history = ingredient.priceHistory || [];
+
+  if (history.length === 0) {
+    return (
+      <div>
+        <h4 className="font-semibold text-slate-700 mb-2">Historial de Precios</h4>
+        <p className="text-sm text-slate-400 italic">Sin cambios de precio registrados.</p>
+      </div>
+    );
+  }
+
+  const prices = history.map(e => e.pricePerUnit);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+
+  const points = history.map((entry, index) => {
+    const x = history.length === 1
+      ? CHART_WIDTH / 2
+      : PADDING + (index / (history.length - 1)) * (CHART_WIDTH - 2 * PADDING);
+    const y = CHART_HEIGHT - PADDING - ((entry.pricePerUnit - min) / range) * (CHART_HEIGHT - 2 * PADDING);
+    return { x, y };
+  });
+
+  return (
+    <div>
+      <h4 className="font-semibold text-slate-700 mb-2">Historial de Precios</h4>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28 bg-slate-50 rounded-lg">
+        <polyline
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke="#f43f5e"
+          strokeWidth={2}
+        />
+        {points.map((p, index) => (
+          <circle key={index} cx={p.x} cy={p.y} r={3} fill="#e11d48" />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-400 mt-1">
+        <span>Mín: ${min.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+        <span>Máx: ${max.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+      </div>
+
+      <table className="w-full text-sm mt-3">
+        <thead>
+          <tr className="text-left text-xs text-slate-400">
+            <th className="font-medium pb-1">Fecha</th>
+            <th className="font-medium pb-1">Origen</th>
+            <th className="font-medium pb-1 text-right">Precio / {ingredient.unit}</th>
+            <th className="font-medium pb-1 text-right">Var.</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {[...history].reverse().map((entry, index, reversed) => {
+            const previous = reversed[index + 1];
+            const change = previous && previous.pricePerUnit > 0
+              ? ((entry.pricePerUnit - previous.pricePerUnit) / previous.pricePerUnit) * 100
+              : null;
+            return (
+              <tr key={index}>
+                <td className="py-1 text-slate-600">{entry.date}</td>
+                <td className="py-1 text-slate-400">{entry.source === 'purchase' ? 'Compra' : 'Edición'}</td>
+                <td className="py-1 text-right font-medium">${entry.pricePerUnit.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                <td className={`py-1 text-right text-xs ${change !== null && change > 0 ? 'text-red-500' : 'text-green-600'}`}>
+                  {change !== null ? `${change > 0 ? '+' : ''}${change.toFixed(1)}%` : '-'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PriceHistory;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { PricingMethod, PricingRule } from '../types';
+
+// Form state keeps numbers as strings, like the rest of the app's inputs
+export interface PricingRuleDraft {
+  method: PricingMethod;
+  markup: string;
+  marginPercent: string;
+  fixedPrice: string;
+  fixedPer: 'kg' | 'unit';
+  roundTo: string;
+  minPrice: string;
+}
+
+export const toPricingDraft = (rule: PricingRule): PricingRuleDraft => ({
+  method: rule.method,
+  markup: rule.markup.toString(),
+  marginPercent: rule.marginPercent.toString(),
+  fixedPrice: rule.fixedPrice.toString(),
+  fixedPer: rule.fixedPer,
+  roundTo: rule.roundTo.toString(),
+  minPrice: rule.minPrice.toString()
+});
+
+export const fromPricingDraft = (draft: PricingRuleDraft): PricingRule => ({
+  method: draft.method,
+  markup: parseFloat(draft.markup) || 0,
+  marginPercent: parseFloat(draft.marginPercent) || 0,
+  fixedPrice: parseFloat(draft.fixedPrice) || 0,
+  fixedPer: draft.fixedPer,
+  roundTo: parseFloat(draft.roundTo) || 0,
+  minPrice: parseFloat(draft.minPrice) || 0
+});
+
+interface Props {
+  value: PricingRuleDraft;
+  onChange: (draft: PricingRuleDraft) => void;
+}
+
+const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+const PricingRuleForm: React.FC<Props> = ({ value, onChange }) => {
+  const set = (field: keyof PricingRuleDraft, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-slate-600 mb-1">Método</label>
+        <select
+          value={value.method}
+          onChange={(e) => set('method', e.target.value)}
+          className={inputClass}
+        >
+          <option value="markup">Multiplicador sobre el costo</option>
+          <option value="margin">Margen bruto objetivo (%)</option>
+          <option value="fixed">Precio fijo por kg / unidad</option>
+        </select>
+      </div>
+
+      {value.method === 'markup' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Multiplicador</label>
+          <input type="number" step="any" value={value.markup} onChange={(e) => set('markup', e.target.value)} className={inputClass} placeholder="3" />
+        </div>
+      )}
+
+      {value.method === 'margin' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Margen sobre el precio (%)</label>
+          <input type="number" step="any" value={value.marginPercent} onChange={(e) => set('marginPercent', e.target.value)} className={inputClass} placeholder="65" />
+        </div>
+      )}
+
+      {value.method === 'fixed' && (
+        <div className="flex gap-2">
+          <input type="number" step="any" value={value.fixedPrice} onChange={(e) => set('fixedPrice', e.target.value)} className={inputClass} placeholder="Precio" />
+          <select value={value.fixedPer} onChange={(e) => set('fixedPer', e.target.value)} className="p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50">
+            <option value="kg">por kg</option>
+            <option value="unit">por unidad</option>
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Redondear hacia arriba</label>
+          <select value={value.roundTo} onChange={(e) => set('roundTo', e.target.value)} className={inputClass}>
+            <option value="0">Sin redondeo</option>
+            <option value="10">a $10</option>
+            <option value="50">a $50</option>
+            <option value="100">a $100</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">Precio mínimo</label>
+          <input type="number" step="any" value={value.minPrice} onChange={(e) => set('minPrice', e.target.value)} className={inputClass} placeholder="0" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PricingRuleForm;
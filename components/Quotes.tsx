@@ -0,0 +1,450 @@
+import React, { useState, useEffect } from 'react';
+import { collection, addDoc, query, where, onSnapshot, deleteDoc, doc, updateDoc, writeBatch, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Order, Quote, QuoteItem, QuoteStatus, QUOTE_STATUS_LABELS, Recipe, UserSettings } from '../types';
+import { calculateCostBreakdown } from '../costing';
+import { calculatePrice, resolvePricingRule } from '../pricing';
+import { parseSettings } from '../settings';
+import { generateQuotePdf, getQuoteStatus, getQuoteTotals } from '../quote';
+import { addDaysISO } from '../dates';
+import { getYieldUnitLabel } from '../yield';
+
+interface Props {
+  userId: string;
+}
+
+interface LocalQuoteItem {
+  recipeId: string;
+  targetWeight: string;
+}
+
+interface LocalQuoteExtra {
+  description: string;
+  amount: string;
+}
+
+const DEFAULT_VALIDITY_DAYS = 15;
+
+const STATUS_STYLES: Record<QuoteStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  sent: 'bg-blue-100 text-blue-700',
+  accepted: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-600',
+  expired: 'bg-amber-100 text-amber-700'
+};
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const Quotes: React.FC<Props> = ({ userId }) => {
+  // Data States
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+
+  // Form States
+  const [customer, setCustomer] = useState('');
+  const [items, setItems] = useState<LocalQuoteItem[]>([]);
+  const [extras, setExtras] = useState<LocalQuoteExtra[]>([]);
+  const [labourHours, setLabourHours] = useState('');
+  const [labourRate, setLabourRate] = useState('');
+  const [validUntil, setValidUntil] = useState(addDaysISO(DEFAULT_VALIDITY_DAYS));
+  const [deliveryDate, setDeliveryDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Feedback States
+  const [successMsg, setSuccessMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'quotes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Quote));
+        // Newest first
+        data.sort((a, b) => b.createdAt - a.createdAt);
+        setQuotes(data);
+      },
+      (err) => {
+        console.error("Firestore Error:", err);
+        setErrorMsg("Error al cargar presupuestos. Verifica permisos de Firebase.");
+      }
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setRecipes(data);
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setIngredients(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient)));
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Recipes scaled to the target quantity, in each recipe's yield units, and
+  // priced with the usual pricing rule
+  const pricedItems: QuoteItem[] = items.flatMap(item => {
+    const recipe = recipes.find(r => r.id === item.recipeId);
+    const targetWeight = parseFloat(item.targetWeight);
+    if (!recipe || isNaN(targetWeight) || targetWeight <= 0) return [];
+    const cost = calculateCostBreakdown(recipe, ingredients, recipes, settings, targetWeight).total;
+    return [{
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      targetWeight,
+      cost,
+      price: calculatePrice(cost, targetWeight, resolvePricingRule(recipe, settings))
+    }];
+  });
+  const parsedExtras = extras
+    .filter(extra => extra.description.trim())
+    .map(extra => ({ description: extra.description.trim(), amount: parseFloat(extra.amount) || 0 }));
+  const totals = getQuoteTotals(pricedItems, parsedExtras, parseFloat(labourHours) || 0, parseFloat(labourRate) || 0);
+
+  const updateItem = (index: number, field: keyof LocalQuoteItem, value: string) => {
+    const newList = [...items];
+    newList[index] = { ...newList[index], [field]: value };
+    setItems(newList);
+  };
+
+  const updateExtra = (index: number, field: keyof LocalQuoteExtra, value: string) => {
+    const newList = [...extras];
+    newList[index] = { ...newList[index], [field]: value };
+    setExtras(newList);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg('');
+
+    if (!customer.trim() || pricedItems.length === 0) {
+      setErrorMsg('Ingresa el cliente y al menos una preparación con su cantidad.');
+      return;
+    }
+
+    const quoteData = {
+      userId,
+      customer: customer.trim(),
+      items: pricedItems,
+      extras: parsedExtras,
+      labourHours: parseFloat(labourHours) || 0,
+      labourRate: parseFloat(labourRate) || 0,
+      total: totals.total,
+      notes: notes.trim(),
+      validUntil,
+      deliveryDate
+    };
+
+    try {
+      if (editingId) {
+        await updateDoc(doc(db, 'quotes', editingId), quoteData);
+        setSuccessMsg('Presupuesto actualizado.');
+      } else {
+        await addDoc(collection(db, 'quotes'), { ...quoteData, status: 'draft', createdAt: Date.now() });
+        setSuccessMsg('Presupuesto creado.');
+      }
+      resetForm();
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al guardar. Verifica tu conexión.');
+    }
+  };
+
+  const handleEdit = (quote: Quote) => {
+    setCustomer(quote.customer);
+    setItems(quote.items.map(i => ({ recipeId: i.recipeId, targetWeight: i.targetWeight.toString() })));
+    setExtras(quote.extras.map(e => ({ description: e.description, amount: e.amount.toString() })));
+    setLabourHours(quote.labourHours ? quote.labourHours.toString() : '');
+    setLabourRate(quote.labourRate ? quote.labourRate.toString() : '');
+    setValidUntil(quote.validUntil);
+    setDeliveryDate(quote.deliveryDate || '');
+    setNotes(quote.notes || '');
+    setEditingId(quote.id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('¿Eliminar este presupuesto?')) return;
+    try {
+      await deleteDoc(doc(db, 'quotes', id));
+      if (editingId === id) resetForm();
+    } catch (err) {
+      console.error(err);
+      alert('Error al eliminar el presupuesto.');
+    }
+  };
+
+  const handleStatusChange = async (quote: Quote, status: QuoteStatus) => {
+    try {
+      await updateDoc(doc(db, 'quotes', quote.id), { status });
+    } catch (err) {
+      console.error(err);
+      alert('Error al cambiar el estado.');
+    }
+  };
+
+  // Creates an order from an accepted quote and links both documents
+  const handleConvertToOrder = async (quote: Quote) => {
+    try {
+      const orderRef = doc(collection(db, 'orders'));
+      const order: Omit<Order, 'id'> = {
+        userId,
+        customer: quote.customer,
+        items: quote.items.map(i => ({ recipeId: i.recipeId, recipeName: i.recipeName, quantity: i.targetWeight, price: i.price })),
+        extras: [
+          ...quote.extras,
+          ...(quote.labourHours > 0 ? [{ description: 'Mano de obra', amount: quote.labourHours * quote.labourRate }] : [])
+        ],
+        total: quote.total,
+        deposit: 0,
+        deliveryDate: quote.deliveryDate || quote.validUntil,
+        status: 'pending',
+        notes: quote.notes || '',
+        quoteId: quote.id,
+        createdAt: Date.now()
+      };
+      const batch = writeBatch(db);
+      batch.set(orderRef, order);
+      batch.update(doc(db, 'quotes', quote.id), { orderId: orderRef.id });
+      await batch.commit();
+      setSuccessMsg('Pedido creado a partir del presupuesto.');
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error(err);
+      alert('Error al crear el pedido.');
+    }
+  };
+
+  const resetForm = () => {
+    setCustomer('');
+    setItems([]);
+    setExtras([]);
+    setLabourHours('');
+    setLabourRate('');
+    setValidUntil(addDaysISO(DEFAULT_VALIDITY_DAYS));
+    setDeliveryDate('');
+    setNotes('');
+    setEditingId(null);
+    setErrorMsg('');
+  };
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+  return (
+    <div className="space-y-8 animate-fade-in pb-20">
+      {/* FORM SECTION */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100">
+        <h2 className="text-xl font-bold text-rose-500 mb-4">
+          {editingId ? 'Editar Presupuesto' : 'Nuevo Presupuesto'}
+        </h2>
+
+        {errorMsg && (
+          <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg mb-4 text-sm">
+            {errorMsg}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Cliente</label>
+              <input type="text" value={customer} onChange={(e) => setCustomer(e.target.value)} className={inputClass} placeholder="Nombre del cliente" required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Válido hasta</label>
+              <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className={inputClass} required />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Fecha de entrega (opcional)</label>
+            <input type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} className={inputClass} />
+          </div>
+
+          {/* Recipes */}
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-slate-600">Preparaciones</label>
+              <button
+                type="button"
+                onClick={() => setItems([...items, { recipeId: '', targetWeight: '' }])}
+                className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+              >
+                + Agregar
+              </button>
+            </div>
+            {items.map((row, index) => {
+              const recipe = recipes.find(r => r.id === row.recipeId);
+              const weight = parseFloat(row.targetWeight);
+              return (
+                <div key={index} className="flex gap-2 items-start">
+                  <select value={row.recipeId} onChange={(e) => updateItem(index, 'recipeId', e.target.value)} className={`${inputClass} flex-1`} required>
+                    <option value="">Seleccionar receta...</option>
+                    {recipes.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                  </select>
+                  <div className="w-32">
+                    <input type="number" value={row.targetWeight} onChange={(e) => updateItem(index, 'targetWeight', e.target.value)} className={inputClass} placeholder={`Cantidad (${getYieldUnitLabel(recipe)})`} required />
+                    {recipe && weight > 0 && recipe.totalYieldWeight > 0 && (
+                      <p className="text-xs text-slate-400 mt-1">x{(weight / recipe.totalYieldWeight).toFixed(2)} receta</p>
+                    )}
+                  </div>
+                  <button type="button" onClick={() => setItems(items.filter((_, i) => i !== index))} className="p-2 text-red-400 hover:text-red-600">✕</button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Extras */}
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-slate-600">Adicionales (decoración, packaging, envío)</label>
+              <button
+                type="button"
+                onClick={() => setExtras([...extras, { description: '', amount: '' }])}
+                className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+              >
+                + Agregar
+              </button>
+            </div>
+            {extras.map((row, index) => (
+              <div key={index} className="flex gap-2 items-start">
+                <input type="text" value={row.description} onChange={(e) => updateExtra(index, 'description', e.target.value)} className={`${inputClass} flex-1`} placeholder="Descripción" />
+                <input type="number" step="any" value={row.amount} onChange={(e) => updateExtra(index, 'amount', e.target.value)} className={`${inputClass} w-32`} placeholder="Monto" />
+                <button type="button" onClick={() => setExtras(extras.filter((_, i) => i !== index))} className="p-2 text-red-400 hover:text-red-600">✕</button>
+              </div>
+            ))}
+          </div>
+
+          {/* Labour */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Horas de trabajo</label>
+              <input type="number" step="any" value={labourHours} onChange={(e) => setLabourHours(e.target.value)} className={inputClass} placeholder="0" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Valor hora</label>
+              <input type="number" step="any" value={labourRate} onChange={(e) => setLabourRate(e.target.value)} className={inputClass} placeholder="0" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Observaciones</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} rows={3} placeholder="Diseño, sabores, condiciones de pago..." />
+          </div>
+
+          <div className="bg-rose-50 p-4 rounded-xl space-y-1 text-sm">
+            <p className="flex justify-between"><span>Preparaciones:</span><span>{formatMoney(totals.itemsTotal)}</span></p>
+            <p className="flex justify-between"><span>Adicionales:</span><span>{formatMoney(totals.extrasTotal)}</span></p>
+            <p className="flex justify-between"><span>Mano de obra:</span><span>{formatMoney(totals.labourTotal)}</span></p>
+            <p className="flex justify-between text-lg font-bold text-rose-600 pt-1"><span>Total:</span><span>{formatMoney(totals.total)}</span></p>
+          </div>
+
+          <div className="flex gap-2">
+            <button type="submit" className="flex-1 bg-rose-500 text-white py-4 rounded-xl font-bold hover:bg-rose-600 transition shadow-lg text-lg">
+              {editingId ? 'Actualizar Presupuesto' : 'Guardar Presupuesto'}
+            </button>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="px-6 py-4 bg-slate-200 text-slate-600 rounded-xl font-bold hover:bg-slate-300 transition">
+                Cancelar
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* LIST SECTION */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-bold text-slate-700 pl-2 border-l-4 border-rose-400">
+          Presupuestos ({quotes.length})
+        </h3>
+
+        {quotes.length === 0 ? (
+          <p className="text-center text-slate-400 py-8 italic">No hay presupuestos aún.</p>
+        ) : (
+          quotes.map(quote => {
+            const status = getQuoteStatus(quote);
+            return (
+              <div key={quote.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 space-y-3">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <h4 className="font-bold text-lg text-slate-800">{quote.customer}</h4>
+                    <p className="text-xs text-slate-400">
+                      Válido hasta {quote.validUntil}{quote.deliveryDate ? ` · Entrega ${quote.deliveryDate}` : ''}
+                    </p>
+                  </div>
+                  <span className={`text-xs font-bold px-2 py-1 rounded-lg ${STATUS_STYLES[status]}`}>
+                    {QUOTE_STATUS_LABELS[status]}
+                  </span>
+                </div>
+                <ul className="text-sm text-slate-600">
+                  {quote.items.map((item, index) => (
+                    <li key={index}>{item.recipeName} · {item.targetWeight} {getYieldUnitLabel(recipes.find(r => r.id === item.recipeId))}</li>
+                  ))}
+                </ul>
+                <p className="flex justify-between font-bold text-rose-600">
+                  <span>Total:</span><span>{formatMoney(quote.total)}</span>
+                </p>
+
+                <div className="flex flex-wrap gap-2 pt-3 border-t border-slate-50">
+                  <select
+                    value={quote.status}
+                    onChange={(e) => handleStatusChange(quote, e.target.value as QuoteStatus)}
+                    className="p-2 rounded-lg border border-slate-200 text-sm text-black bg-white"
+                  >
+                    {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(s => (
+                      <option key={s} value={s}>{QUOTE_STATUS_LABELS[s]}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => generateQuotePdf(quote, settings.profile, recipes)} className="px-3 py-2 text-sm font-semibold text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200">PDF</button>
+                  <button onClick={() => handleEdit(quote)} className="px-3 py-2 text-sm font-semibold text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100">Editar</button>
+                  <button onClick={() => handleDelete(quote.id)} className="px-3 py-2 text-sm font-semibold text-red-500 bg-red-50 rounded-lg hover:bg-red-100">Eliminar</button>
+                  {status === 'accepted' && !quote.orderId && (
+                    <button onClick={() => handleConvertToOrder(quote)} className="px-3 py-2 text-sm font-semibold text-white bg-green-500 rounded-lg hover:bg-green-600">
+                      Convertir en pedido
+                    </button>
+                  )}
+                  {quote.orderId && <span className="px-3 py-2 text-xs font-bold text-green-600">✓ Pedido creado</span>}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Quotes;
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { collection, addDoc, query, where, onSnapshot, QuerySnapshot, DocumentData, deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { collection, addDoc, query, where, onSnapshot, QuerySnapshot, DocumentData, deleteDoc, doc, updateDoc, writeBatch, increment } from 'firebase/firestore';
 import { db } from '../firebase';
-import { Ingredient, Recipe, getConversionFactor } from '../types';
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS, Ingredient, Recipe, RecipeUnit, SellableFormat, StockMovement, UserSettings, YIELD_TYPE_LABELS, YieldType } from '../types';
+import { calculateCostBreakdown, calculateRecipeCost, getIngredientCost, getRecipesUsingRecipe, getRefreshedCostFields, hasCostChanged, wouldCreateCycle } from '../costing';
+import { calculatePrice, getFormatPrice, getPricingLabel, resolvePricingRule } from '../pricing';
+import { parseSettings } from '../settings';
+import { DEFAULT_SERVING_SIZE } from '../label';
+import { getRecipeIngredientUsage, toStockUnit } from '../stock';
+import { todayISO } from '../dates';
+import { RECIPE_UNITS, getBaseUnit, toBaseQuantity } from '../units';
+import { checkYield, estimateYield, getRawMass, getYieldGrams, getYieldUnitLabel } from '../yield';
+import { calculateRecipeNutrition, formatNutrient, getNetCarbs, scaleNutrition } from '../nutrition';
+import { ALLERGENS, INGREDIENT_DIETARY_TAGS, getRecipeDietary, matchesDietaryFilter } from '../dietary';
+import ScalePanel from './ScalePanel';
+import CostBreakdownList from './CostBreakdownList';
+import CostDetailPanel from './CostDetailPanel';
+import PricingRuleForm, { PricingRuleDraft, toPricingDraft, fromPricingDraft } from './PricingRuleForm';
 
 interface Props {
   userId: string;
@@ -9,20 +23,58 @@ interface Props {
 
 interface LocalRecipeIngredient {
   ingredientId: string;
+  quantityUsed: string; // As typed, in `unit`
+  unit: RecipeUnit;
+}
+
+interface LocalRecipeComponent {
+  recipeId: string;
   quantityUsed: string;
 }
 
+interface LocalFormat {
+  id: string;
+  name: string;
+  quantity: string;
+  price: string;
+}
+
 const Recipes: React.FC<Props> = ({ userId }) => {
   // Data States
   const [availableIngredients, setAvailableIngredients] = useState<Ingredient[]>([]);
   const [savedRecipes, setSavedRecipes] = useState<Recipe[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
   
   // Form States
   const [recipeName, setRecipeName] = useState('');
   const [ingredientsList, setIngredientsList] = useState<LocalRecipeIngredient[]>([]);
+  const [componentsList, setComponentsList] = useState<LocalRecipeComponent[]>([]);
   const [totalYield, setTotalYield] = useState('');
+  const [moistureLoss, setMoistureLoss] = useState('');
+  const [yieldType, setYieldType] = useState<YieldType>('weight');
+  const [portionWeight, setPortionWeight] = useState('');
+  const [formats, setFormats] = useState<LocalFormat[]>([]);
+  const [servingSize, setServingSize] = useState('');
+  const [allergens, setAllergens] = useState('');
+  const [labourMinutes, setLabourMinutes] = useState('');
+  const [ovenMinutes, setOvenMinutes] = useState('');
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [useCustomPricing, setUseCustomPricing] = useState(false);
+  const [pricingDraft, setPricingDraft] = useState<PricingRuleDraft>(toPricingDraft(settings.pricing));
   
+  // Production run
+  const [productionRecipeId, setProductionRecipeId] = useState<string | null>(null);
+  const [productionBatches, setProductionBatches] = useState('1');
+
+  // Scaling tool
+  const [scalingRecipeId, setScalingRecipeId] = useState<string | null>(null);
+
+  // Cost breakdown and what-if simulator
+  const [detailRecipeId, setDetailRecipeId] = useState<string | null>(null);
+
+  // List filter by dietary tag or missing allergen, see matchesDietaryFilter
+  const [dietaryFilter, setDietaryFilter] = useState('');
+
   // Feedback States
   const [successMsg, setSuccessMsg] = useState('');
   const [errorMsg, setErrorMsg] = useState('');
@@ -56,8 +108,17 @@ const Recipes: React.FC<Props> = ({ userId }) => {
     return () => unsubscribe();
   }, [userId]);
 
+  // 3. Fetch user settings (default pricing rule)
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
   const addIngredientRow = () => {
-    setIngredientsList([...ingredientsList, { ingredientId: '', quantityUsed: '' }]);
+    setIngredientsList([...ingredientsList, { ingredientId: '', quantityUsed: '', unit: 'g' }]);
   };
 
   const removeIngredientRow = (index: number) => {
@@ -69,17 +130,58 @@ const Recipes: React.FC<Props> = ({ userId }) => {
   const handleRowChange = (index: number, field: keyof LocalRecipeIngredient, value: string) => {
     const newList = [...ingredientsList];
     newList[index] = { ...newList[index], [field]: value };
+    // A new ingredient starts in its own base unit
+    if (field === 'ingredientId') {
+      const ing = availableIngredients.find(i => i.id === value);
+      if (ing) newList[index].unit = getBaseUnit(ing.unit);
+    }
     setIngredientsList(newList);
   };
 
+  // Row quantity in the ingredient's base unit (g, ml or un); null if it can't be converted
+  const getRowBaseQuantity = (row: LocalRecipeIngredient): number | null => {
+    const ing = availableIngredients.find(i => i.id === row.ingredientId);
+    const qty = parseFloat(row.quantityUsed);
+    if (!ing || isNaN(qty)) return null;
+    return toBaseQuantity(qty, row.unit, ing);
+  };
+
+  const addComponentRow = () => {
+    setComponentsList([...componentsList, { recipeId: '', quantityUsed: '' }]);
+  };
+
+  const removeComponentRow = (index: number) => {
+    const newList = [...componentsList];
+    newList.splice(index, 1);
+    setComponentsList(newList);
+  };
+
+  const handleComponentChange = (index: number, field: keyof LocalRecipeComponent, value: string) => {
+    const newList = [...componentsList];
+    newList[index] = { ...newList[index], [field]: value };
+    setComponentsList(newList);
+  };
+
+  // Cost of `qty` grams of a sub-recipe at its current (nested) cost
+  const getComponentCost = (recipeId: string, qty: number) => {
+    const sub = savedRecipes.find(r => r.id === recipeId);
+    if (!sub) return 0;
+    return calculateRecipeCost(sub, availableIngredients, savedRecipes, settings.costing).costPerGram * qty;
+  };
+
   const calculateTotalCost = () => {
     let total = 0;
     ingredientsList.forEach(item => {
       const ing = availableIngredients.find(i => i.id === item.ingredientId);
+      const qty = getRowBaseQuantity(item);
+      if (ing && qty !== null) {
+        total += getIngredientCost(ing, qty, settings.costing);
+      }
+    });
+    componentsList.forEach(item => {
       const qty = parseFloat(item.quantityUsed);
-      if (ing && !isNaN(qty)) {
-        const factor = getConversionFactor(ing.unit);
-        total += (ing.pricePerUnit / factor) * qty;
+      if (item.recipeId && !isNaN(qty)) {
+        total += getComponentCost(item.recipeId, qty);
       }
     });
     return total;
@@ -91,22 +193,51 @@ const Recipes: React.FC<Props> = ({ userId }) => {
     setErrorMsg('');
 
     const yieldWeight = parseFloat(totalYield);
-    if (!recipeName || ingredientsList.length === 0 || isNaN(yieldWeight) || yieldWeight <= 0) {
+    if (!recipeName || (ingredientsList.length === 0 && componentsList.length === 0) || isNaN(yieldWeight) || yieldWeight <= 0) {
       alert("Por favor complete todos los campos correctamente.");
       return;
     }
 
+    // Rows pointing at deleted ingredients can't be priced
+    if (ingredientsList.some(item => !availableIngredients.some(i => i.id === item.ingredientId))) {
+      setErrorMsg('Hay ingredientes eliminados en la receta. Reemplázalos antes de guardar.');
+      return;
+    }
+
+    if (ingredientsList.some(item => getRowBaseQuantity(item) === null)) {
+      setErrorMsg('Hay cantidades en tazas, cucharadas u onzas sin densidad o peso por unidad cargado en el ingrediente.');
+      return;
+    }
+
+    if (editingId && componentsList.some(item => wouldCreateCycle(editingId, item.recipeId, savedRecipes))) {
+      setErrorMsg('Una sub-receta no puede contener a esta misma receta.');
+      return;
+    }
+
     const totalCost = calculateTotalCost();
     const costPerGram = totalCost / yieldWeight;
 
     const finalIngredients = ingredientsList.map(item => {
       const ing = availableIngredients.find(i => i.id === item.ingredientId)!;
-      const qty = parseFloat(item.quantityUsed);
-      const factor = getConversionFactor(ing.unit);
+      const qty = getRowBaseQuantity(item)!;
+      // Kitchen units are kept as written so the recipe reads the same when edited
+      const entry = item.unit !== getBaseUnit(ing.unit)
+        ? { entryUnit: item.unit, entryQuantity: parseFloat(item.quantityUsed) }
+        : {};
       return {
         ingredientId: item.ingredientId,
         quantityUsed: qty,
-        calculatedCost: (ing.pricePerUnit / factor) * qty
+        calculatedCost: getIngredientCost(ing, qty, settings.costing),
+        ...entry
+      };
+    });
+
+    const finalComponents = componentsList.map(item => {
+      const qty = parseFloat(item.quantityUsed);
+      return {
+        recipeId: item.recipeId,
+        quantityUsed: qty,
+        calculatedCost: getComponentCost(item.recipeId, qty)
       };
     });
 
@@ -114,9 +245,21 @@ const Recipes: React.FC<Props> = ({ userId }) => {
       userId,
       name: recipeName,
       ingredients: finalIngredients,
+      components: finalComponents,
       totalYieldWeight: yieldWeight,
       totalCost,
-      costPerGram
+      costPerGram,
+      pricing: useCustomPricing ? fromPricingDraft(pricingDraft) : null,
+      servingSize: parseFloat(servingSize) || DEFAULT_SERVING_SIZE,
+      allergens: allergens.trim(),
+      labourMinutes: parseFloat(labourMinutes) || 0,
+      ovenMinutes: parseFloat(ovenMinutes) || 0,
+      moistureLossPercent: parseFloat(moistureLoss) || 0,
+      yieldType,
+      portionWeight: yieldType === 'portions' ? parseFloat(portionWeight) || 0 : 0,
+      formats: formats
+        .filter(f => f.name.trim() && parseFloat(f.quantity) > 0)
+        .map((f): SellableFormat => ({ id: f.id, name: f.name.trim(), quantity: parseFloat(f.quantity), price: parseFloat(f.price) || 0 }))
     };
 
     try {
@@ -142,13 +285,34 @@ const Recipes: React.FC<Props> = ({ userId }) => {
   const handleEdit = (recipe: Recipe) => {
     setRecipeName(recipe.name);
     setTotalYield(recipe.totalYieldWeight.toString());
+    setMoistureLoss(recipe.moistureLossPercent ? recipe.moistureLossPercent.toString() : '');
+    setYieldType(recipe.yieldType || 'weight');
+    setPortionWeight(recipe.portionWeight ? recipe.portionWeight.toString() : '');
+    setFormats((recipe.formats || []).map(f => ({
+      id: f.id,
+      name: f.name,
+      quantity: f.quantity.toString(),
+      price: f.price ? f.price.toString() : ''
+    })));
+    setServingSize(recipe.servingSize ? recipe.servingSize.toString() : '');
+    setAllergens(recipe.allergens || '');
+    setLabourMinutes(recipe.labourMinutes ? recipe.labourMinutes.toString() : '');
+    setOvenMinutes(recipe.ovenMinutes ? recipe.ovenMinutes.toString() : '');
     
     // Transform ingredients back to local state
-    const localIngredients = recipe.ingredients.map(i => ({
-      ingredientId: i.ingredientId,
-      quantityUsed: i.quantityUsed.toString()
-    }));
+    const localIngredients = recipe.ingredients.map((i): LocalRecipeIngredient => {
+      const ing = availableIngredients.find(a => a.id === i.ingredientId);
+      return i.entryUnit && i.entryQuantity !== undefined
+        ? { ingredientId: i.ingredientId, quantityUsed: i.entryQuantity.toString(), unit: i.entryUnit }
+        : { ingredientId: i.ingredientId, quantityUsed: i.quantityUsed.toString(), unit: ing ? getBaseUnit(ing.unit) : 'g' };
+    });
     setIngredientsList(localIngredients);
+    setComponentsList((recipe.components || []).map(c => ({
+      recipeId: c.recipeId,
+      quantityUsed: c.quantityUsed.toString()
+    })));
+    setUseCustomPricing(!!recipe.pricing);
+    setPricingDraft(toPricingDraft(recipe.pricing || settings.pricing));
     
     setEditingId(recipe.id);
     
@@ -160,7 +324,13 @@ const Recipes: React.FC<Props> = ({ userId }) => {
     e.stopPropagation();
     if (!id) return;
     
-    if (window.confirm('¿Estás seguro de eliminar esta receta? Esta acción no se puede deshacer.')) {
+    // Warn when other recipes use this one as a sub-recipe
+    const usedBy = getRecipesUsingRecipe(id, savedRecipes);
+    const confirmMsg = usedBy.length > 0
+      ? `Esta receta se usa como sub-receta en: ${usedBy.map(r => r.name).join(', ')}. Si la eliminas, esas recetas perderán ese costo. ¿Eliminar de todas formas?`
+      : '¿Estás seguro de eliminar esta receta? Esta acción no se puede deshacer.';
+
+    if (window.confirm(confirmMsg)) {
       try {
         await deleteDoc(doc(db, 'recipes', id));
         
@@ -179,26 +349,135 @@ const Recipes: React.FC<Props> = ({ userId }) => {
     }
   };
 
+  // Subtracts the ingredients used by `batches` of a recipe from stock and logs the movements
+  const handleProduction = async (recipe: Recipe) => {
+    const batches = parseFloat(productionBatches);
+    if (isNaN(batches) || batches <= 0) {
+      alert('Ingresa una cantidad de tandas válida.');
+      return;
+    }
+
+    try {
+      const batch = writeBatch(db);
+      const createdAt = Date.now();
+      getRecipeIngredientUsage(recipe, savedRecipes, batches).forEach((quantityUsed, ingredientId) => {
+        const ing = availableIngredients.find(i => i.id === ingredientId);
+        if (!ing) return;
+        const qty = toStockUnit(ing, quantityUsed);
+        const movement: Omit<StockMovement, 'id'> = {
+          userId,
+          ingredientId,
+          type: 'production',
+          quantity: -qty,
+          recipeId: recipe.id,
+          batches,
+          date: todayISO(),
+          createdAt
+        };
+        batch.set(doc(collection(db, 'stockMovements')), movement);
+        batch.update(doc(db, 'ingredients', ingredientId), { stock: increment(-qty) });
+      });
+      await batch.commit();
+
+      setProductionRecipeId(null);
+      setProductionBatches('1');
+      setSuccessMsg(`Producción de "${recipe.name}" registrada. Stock actualizado.`);
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error("Error al registrar producción:", err);
+      alert('Error al registrar la producción. Verifica tus permisos o conexión.');
+    }
+  };
+
+  // Re-saves every recipe whose stored cost is out of date with current ingredient prices
+  const handleRefreshAll = async () => {
+    // Recipes with deleted ingredients are skipped: their live cost is incomplete
+    const outdated = savedRecipes.filter(recipe => {
+      const live = calculateRecipeCost(recipe, availableIngredients, savedRecipes, settings.costing);
+      return live.missingIngredientIds.length === 0 && hasCostChanged(recipe, live);
+    });
+    if (outdated.length === 0) return;
+
+    try {
+      const batch = writeBatch(db);
+      outdated.forEach(recipe => {
+        const live = calculateRecipeCost(recipe, availableIngredients, savedRecipes, settings.costing);
+        batch.update(doc(db, 'recipes', recipe.id), getRefreshedCostFields(recipe, live));
+      });
+      await batch.commit();
+      setSuccessMsg(`${outdated.length} receta(s) actualizada(s) con los precios actuales.`);
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error("Error al actualizar costos:", err);
+      alert('Error al actualizar las recetas. Verifica tus permisos o conexión.');
+    }
+  };
+
   const resetForm = () => {
     setRecipeName('');
     setIngredientsList([]);
+    setComponentsList([]);
     setTotalYield('');
+    setMoistureLoss('');
+    setYieldType('weight');
+    setPortionWeight('');
+    setFormats([]);
+    setServingSize('');
+    setAllergens('');
+    setLabourMinutes('');
+    setOvenMinutes('');
     setEditingId(null);
+    setUseCustomPricing(false);
+    setPricingDraft(toPricingDraft(settings.pricing));
     setErrorMsg('');
   };
 
   const getIngredientUnitLabel = (id: string) => {
     const ing = availableIngredients.find(i => i.id === id);
     if (!ing) return 'cant';
-    switch (ing.unit) {
-      case 'Kg': return 'gramos';
-      case 'Lt': return 'ml';
+    switch (getBaseUnit(ing.unit)) {
+      case 'g': return 'gramos';
+      case 'ml': return 'ml';
       default: return 'unidades';
     }
   };
 
   const currentTotal = calculateTotalCost();
 
+  // Raw mass of the rows being edited, for the expected-yield helper
+  const formRawMass = getRawMass(
+    ingredientsList.map(item => ({ ingredientId: item.ingredientId, quantityUsed: getRowBaseQuantity(item) || 0 })),
+    componentsList.filter(item => item.recipeId).map(item => ({ recipeId: item.recipeId, quantityUsed: parseFloat(item.quantityUsed) || 0 })),
+    availableIngredients,
+    savedRecipes
+  );
+  const expectedYield = estimateYield(formRawMass.grams, parseFloat(moistureLoss) || 0);
+  const formYieldGrams = getYieldGrams({
+    yieldType,
+    totalYieldWeight: parseFloat(totalYield) || 0,
+    portionWeight: parseFloat(portionWeight) || 0
+  });
+  const formYieldCheck = formYieldGrams === null ? 'ok' : checkYield(formYieldGrams, formRawMass);
+  const formUnitLabel = getYieldUnitLabel({ yieldType });
+
+  const updateFormat = (index: number, field: keyof LocalFormat, value: string) => {
+    const newList = [...formats];
+    newList[index] = { ...newList[index], [field]: value };
+    setFormats(newList);
+  };
+  const scalingRecipe = savedRecipes.find(r => r.id === scalingRecipeId);
+  const detailRecipe = savedRecipes.find(r => r.id === detailRecipeId);
+
+  const visibleRecipes = dietaryFilter
+    ? savedRecipes.filter(recipe =>
+        matchesDietaryFilter(getRecipeDietary(recipe, availableIngredients, savedRecipes, settings.dietary), dietaryFilter))
+    : savedRecipes;
+
+  const outdatedCount = savedRecipes.filter(recipe => {
+    const live = calculateRecipeCost(recipe, availableIngredients, savedRecipes, settings.costing);
+    return live.missingIngredientIds.length === 0 && hasCostChanged(recipe, live);
+  }).length;
+
   return (
     <div className="space-y-8 animate-fade-in pb-20">
       
@@ -251,23 +530,43 @@ const Recipes: React.FC<Props> = ({ userId }) => {
                     required
                   >
                     <option value="">Seleccionar ingrediente...</option>
-                    {availableIngredients.map(ing => (
-                      <option key={ing.id} value={ing.id}>{ing.name}</option>
-                    ))}
+                    {row.ingredientId && !availableIngredients.some(i => i.id === row.ingredientId) && (
+                      <option value={row.ingredientId}>⚠ Ingrediente eliminado</option>
+                    )}
+                    {availableIngredients
+                      .filter(ing => !ing.archived || ing.id === row.ingredientId)
+                      .map(ing => (
+                        <option key={ing.id} value={ing.id}>{ing.name}{ing.archived ? ' (archivado)' : ''}</option>
+                      ))}
                   </select>
-                  <div className="relative">
+                  <div className="flex gap-2">
                     <input
                       type="number"
+                      step="any"
                       value={row.quantityUsed}
                       onChange={(e) => handleRowChange(index, 'quantityUsed', e.target.value)}
-                      className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                      className="flex-1 p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
                       placeholder="Cantidad usada"
                       required
                     />
-                    <span className="absolute right-3 top-2.5 text-xs text-slate-400">
-                      {row.ingredientId ? getIngredientUnitLabel(row.ingredientId) : '-'}
-                    </span>
+                    <select
+                      value={row.unit}
+                      onChange={(e) => handleRowChange(index, 'unit', e.target.value)}
+                      className="w-24 p-2.5 rounded-xl border border-rose-300 bg-gray-50 text-sm text-black"
+                    >
+                      {RECIPE_UNITS.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                    </select>
                   </div>
+                  {row.ingredientId && getRowBaseQuantity(row) !== null && row.unit !== getBaseUnit(availableIngredients.find(i => i.id === row.ingredientId)!.unit) && (
+                    <p className="text-xs text-slate-400">
+                      = {Math.round(getRowBaseQuantity(row)! * 100) / 100} {getIngredientUnitLabel(row.ingredientId)}
+                    </p>
+                  )}
+                  {row.ingredientId && row.quantityUsed && getRowBaseQuantity(row) === null && availableIngredients.some(i => i.id === row.ingredientId) && (
+                    <p className="text-xs text-red-500">
+                      Carga la densidad o el peso por unidad del ingrediente para usar esta unidad.
+                    </p>
+                  )}
                 </div>
                 <button
                   type="button"
@@ -285,24 +584,263 @@ const Recipes: React.FC<Props> = ({ userId }) => {
             )}
           </div>
 
+          {/* Sub-recipes */}
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+               <label className="block text-sm font-medium text-slate-600">Sub-recetas</label>
+               <button
+                  type="button"
+                  onClick={addComponentRow}
+                  className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+                >
+                  + Agregar
+                </button>
+            </div>
+
+            {componentsList.map((row, index) => (
+              <div key={index} className="flex gap-2 items-start">
+                <div className="flex-grow space-y-2">
+                  <select
+                    value={row.recipeId}
+                    onChange={(e) => handleComponentChange(index, 'recipeId', e.target.value)}
+                    className="w-full p-2.5 rounded-xl border border-rose-300 bg-gray-50 text-sm text-black"
+                    required
+                  >
+                    <option value="">Seleccionar receta...</option>
+                    {savedRecipes
+                      .filter(r => !editingId || !wouldCreateCycle(editingId, r.id, savedRecipes))
+                      .map(r => (
+                        <option key={r.id} value={r.id}>{r.name}</option>
+                      ))}
+                  </select>
+                  <div className="relative">
+                    <input
+                      type="number"
+                      value={row.quantityUsed}
+                      onChange={(e) => handleComponentChange(index, 'quantityUsed', e.target.value)}
+                      className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                      placeholder="Cantidad usada"
+                      required
+                    />
+                    <span className="absolute right-3 top-2.5 text-xs text-slate-400">gr/un</span>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeComponentRow(index)}
+                  className="mt-1 p-2 text-red-400 hover:text-red-600"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+            {componentsList.length === 0 && (
+              <p className="text-sm text-slate-400 italic text-center py-2 bg-slate-50 rounded-lg">Usa otra receta (bizcocho, relleno, ganache) como parte de esta</p>
+            )}
+          </div>
+
           {/* Yield */}
           <div className="bg-rose-50 p-4 rounded-xl">
              <div className="flex justify-between items-center mb-2">
                 <span className="text-sm font-semibold text-rose-600">Costo Ingredientes:</span>
                 <span className="font-bold text-lg">${currentTotal.toFixed(2)}</span>
              </div>
-             <label className="block text-sm font-medium text-slate-600 mb-1">Peso Final de la Preparación (Yield)</label>
+             <div className="grid grid-cols-2 gap-2 mb-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">Rinde en</label>
+                  <select
+                    value={yieldType}
+                    onChange={(e) => setYieldType(e.target.value as YieldType)}
+                    className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-white"
+                  >
+                    {(Object.keys(YIELD_TYPE_LABELS) as YieldType[]).map(t => (
+                      <option key={t} value={t}>{YIELD_TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </div>
+                {yieldType === 'portions' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">Peso por porción (g)</label>
+                    <input
+                      type="number"
+                      step="any"
+                      value={portionWeight}
+                      onChange={(e) => setPortionWeight(e.target.value)}
+                      className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-white placeholder-gray-400"
+                      placeholder="Ej. 120"
+                    />
+                  </div>
+                )}
+             </div>
+             <label className="block text-sm font-medium text-slate-600 mb-1">
+               {yieldType === 'weight' ? 'Peso Final de la Preparación (Yield)' : `Rendimiento (${YIELD_TYPE_LABELS[yieldType].toLowerCase()})`}
+             </label>
              <div className="relative">
                 <input
                   type="number"
                   value={totalYield}
                   onChange={(e) => setTotalYield(e.target.value)}
                   className="w-full p-3 rounded-xl border border-rose-300 focus:outline-none focus:ring-2 focus:ring-rose-400 text-black bg-white placeholder-gray-400"
-                  placeholder="Total en gramos o unidades"
+                  placeholder={yieldType === 'weight' ? 'Total en gramos' : 'Cantidad total'}
                   required
                 />
-                <span className="absolute right-3 top-3.5 text-sm text-slate-400">gr/un</span>
+                <span className="absolute right-3 top-3.5 text-sm text-slate-400">{formUnitLabel}</span>
+             </div>
+             <div className="flex items-center gap-2 mt-3">
+                <label className="text-sm text-slate-600">Pérdida por cocción</label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  max="100"
+                  value={moistureLoss}
+                  onChange={(e) => setMoistureLoss(e.target.value)}
+                  className="w-20 p-2 rounded-lg border border-rose-300 text-sm text-black bg-white placeholder-gray-400"
+                  placeholder="0"
+                />
+                <span className="text-sm text-slate-400">%</span>
              </div>
+             {formRawMass.grams > 0 && (
+                <div className="flex justify-between items-center mt-2 text-xs text-slate-500">
+                  <span>
+                    Masa cruda: {Math.round(formRawMass.grams)} g · Rendimiento estimado: {Math.round(expectedYield)} g
+                    {formRawMass.hasUnitIngredients && ' (sin contar lo que se mide por unidad)'}
+                  </span>
+                  {yieldType === 'weight' && (
+                    <button
+                      type="button"
+                      onClick={() => setTotalYield(Math.round(expectedYield).toString())}
+                      className="text-rose-500 font-bold hover:text-rose-600"
+                    >
+                      Usar
+                    </button>
+                  )}
+                </div>
+             )}
+             {formYieldCheck !== 'ok' && (
+                <p className="mt-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs p-2 rounded-lg">
+                  {formYieldCheck === 'low'
+                    ? `El rendimiento es mucho menor que la masa cruda (${Math.round(formRawMass.grams)} g). ¿Falta un cero?`
+                    : `El rendimiento es mayor que la masa cruda (${Math.round(formRawMass.grams)} g). Revisa el valor ingresado.`}
+                </p>
+             )}
+          </div>
+
+          {/* Sellable formats */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-slate-600">Formatos de venta</label>
+              <button
+                type="button"
+                onClick={() => setFormats([...formats, { id: crypto.randomUUID(), name: '', quantity: '', price: '' }])}
+                className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+              >
+                + Agregar Formato
+              </button>
+            </div>
+            {formats.map((format, index) => (
+              <div key={format.id} className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={format.name}
+                  onChange={(e) => updateFormat(index, 'name', e.target.value)}
+                  className="flex-1 p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="Ej. Porción, Media torta, Caja x6"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={format.quantity}
+                  onChange={(e) => updateFormat(index, 'quantity', e.target.value)}
+                  className="w-20 p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder={formUnitLabel}
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={format.price}
+                  onChange={(e) => updateFormat(index, 'price', e.target.value)}
+                  className="w-24 p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="$ auto"
+                />
+                <button
+                  type="button"
+                  onClick={() => setFormats(formats.filter((_, i) => i !== index))}
+                  className="text-red-400 hover:text-red-600 px-2 font-bold"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {formats.length === 0 && (
+              <p className="text-sm text-slate-400 italic text-center py-2 bg-slate-50 rounded-lg">Sin formatos: se vende por cantidad libre. Deja el precio vacío para usar la regla de precio.</p>
+            )}
+          </div>
+
+          {/* Time */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Mano de obra (min)</label>
+              <input
+                type="number"
+                step="any"
+                value={labourMinutes}
+                onChange={(e) => setLabourMinutes(e.target.value)}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                placeholder="0"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Horno (min)</label>
+              <input
+                type="number"
+                step="any"
+                value={ovenMinutes}
+                onChange={(e) => setOvenMinutes(e.target.value)}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                placeholder="0"
+              />
+            </div>
+          </div>
+
+          {/* Label */}
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Porción (gr)</label>
+              <input
+                type="number"
+                value={servingSize}
+                onChange={(e) => setServingSize(e.target.value)}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                placeholder={DEFAULT_SERVING_SIZE.toString()}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Otros alérgenos / trazas (etiqueta)</label>
+              <input
+                type="text"
+                value={allergens}
+                onChange={(e) => setAllergens(e.target.value)}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                placeholder="Ej. Puede contener trazas de maní"
+              />
+            </div>
+          </div>
+
+          {/* Pricing */}
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+              <input
+                type="checkbox"
+                checked={useCustomPricing}
+                onChange={(e) => setUseCustomPricing(e.target.checked)}
+                className="accent-rose-500"
+              />
+              Regla de precio propia ({useCustomPricing ? 'personalizada' : `general: ${getPricingLabel(settings.pricing)}`})
+            </label>
+            {useCustomPricing && <PricingRuleForm value={pricingDraft} onChange={setPricingDraft} />}
           </div>
 
           <div className="flex gap-2">
@@ -325,43 +863,233 @@ const Recipes: React.FC<Props> = ({ userId }) => {
         </form>
       </div>
 
+      {scalingRecipe && (
+        <ScalePanel
+          userId={userId}
+          recipe={scalingRecipe}
+          ingredients={availableIngredients}
+          recipes={savedRecipes}
+          costing={settings.costing}
+          profile={settings.profile}
+          onClose={() => setScalingRecipeId(null)}
+          onSaved={(name) => {
+            setScalingRecipeId(null);
+            setSuccessMsg(`Variante "${name}" guardada.`);
+            setTimeout(() => setSuccessMsg(''), 3000);
+          }}
+        />
+      )}
+
+      {detailRecipe && (
+        <CostDetailPanel
+          key={detailRecipe.id}
+          recipe={detailRecipe}
+          ingredients={availableIngredients}
+          recipes={savedRecipes}
+          settings={settings}
+          onClose={() => setDetailRecipeId(null)}
+        />
+      )}
+
       {/* LIST SECTION */}
       <div className="space-y-4">
-        <h3 className="text-lg font-bold text-slate-700 pl-2 border-l-4 border-rose-400">
-          Mis Recetas ({savedRecipes.length})
-        </h3>
+        <div className="flex justify-between items-center gap-2">
+          <h3 className="text-lg font-bold text-slate-700 pl-2 border-l-4 border-rose-400">
+            Mis Recetas ({savedRecipes.length})
+          </h3>
+          {outdatedCount > 0 && (
+            <button
+              type="button"
+              onClick={handleRefreshAll}
+              className="text-xs bg-amber-100 text-amber-700 px-3 py-1 rounded-full font-bold hover:bg-amber-200"
+            >
+              Actualizar todas ({outdatedCount})
+            </button>
+          )}
+        </div>
+
+        {savedRecipes.length > 0 && (
+          <select
+            value={dietaryFilter}
+            onChange={(e) => setDietaryFilter(e.target.value)}
+            className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+          >
+            <option value="">Todas las recetas</option>
+            <optgroup label="Apta para">
+              {[...INGREDIENT_DIETARY_TAGS, 'keto' as const].map(tag => (
+                <option key={tag} value={`tag:${tag}`}>{DIETARY_TAG_LABELS[tag]}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Sin alérgeno">
+              {ALLERGENS.map(a => (
+                <option key={a} value={`free:${a}`}>{ALLERGEN_LABELS[a]}</option>
+              ))}
+            </optgroup>
+          </select>
+        )}
         
         {savedRecipes.length === 0 ? (
           <p className="text-center text-slate-400 py-8 italic">No tienes recetas guardadas aún.</p>
+        ) : visibleRecipes.length === 0 ? (
+          <p className="text-center text-slate-400 py-8 italic">Ninguna receta cumple el filtro.</p>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {savedRecipes.map(recipe => (
+            {visibleRecipes.map(recipe => {
+              const live = calculateRecipeCost(recipe, availableIngredients, savedRecipes, settings.costing);
+              const costChanged = hasCostChanged(recipe, live);
+              const breakdown = calculateCostBreakdown(recipe, availableIngredients, savedRecipes, settings);
+              const rule = resolvePricingRule(recipe, settings);
+              const suggestedPrice = calculatePrice(breakdown.total, recipe.totalYieldWeight, rule);
+              const nutrition = calculateRecipeNutrition(recipe, availableIngredients, savedRecipes);
+              // Recipes counted in units have no weight, so they show values per unit
+              const per100 = nutrition.perGram ? scaleNutrition(nutrition.perGram, 100) : nutrition.perYieldUnit;
+              const dietary = getRecipeDietary(recipe, availableIngredients, savedRecipes, settings.dietary);
+              return (
               <div key={recipe.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 flex flex-col justify-between hover:shadow-md transition">
                 <div>
                   <div className="flex justify-between items-start mb-2">
                     <h4 className="font-bold text-lg text-slate-800 leading-tight">{recipe.name}</h4>
                     <span className="bg-rose-100 text-rose-600 text-xs font-bold px-2 py-1 rounded-lg">
-                      {recipe.ingredients.length} Ingred.
+                      {recipe.ingredients.length} Ingred.{recipe.components && recipe.components.length > 0 ? ` + ${recipe.components.length} Sub-rec.` : ''}
                     </span>
                   </div>
+                  {(dietary.tags.length > 0 || dietary.allergens.length > 0 || dietary.incomplete) && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {dietary.tags.map(tag => (
+                        <span key={tag} className="bg-green-100 text-green-700 text-xs font-bold px-2 py-0.5 rounded-lg">{DIETARY_TAG_LABELS[tag]}</span>
+                      ))}
+                      {dietary.allergens.map(a => (
+                        <span key={a} className="bg-amber-100 text-amber-700 text-xs font-medium px-2 py-0.5 rounded-lg">{ALLERGEN_LABELS[a]}</span>
+                      ))}
+                      {dietary.incomplete && (
+                        <span className="bg-red-100 text-red-600 text-xs font-bold px-2 py-0.5 rounded-lg">Alérgenos sin verificar</span>
+                      )}
+                    </div>
+                  )}
                   
                   <div className="space-y-1 text-sm text-slate-600 mb-4">
                     <p className="flex justify-between">
                       <span>Rendimiento (Yield):</span>
-                      <span className="font-medium">{recipe.totalYieldWeight} gr/un</span>
+                      <span className="font-medium">
+                        {recipe.totalYieldWeight} {getYieldUnitLabel(recipe)}
+                        {recipe.yieldType === 'portions' && recipe.portionWeight ? ` de ${recipe.portionWeight} g` : ''}
+                      </span>
                     </p>
                     <p className="flex justify-between">
                       <span>Costo Total:</span>
-                      <span className="font-medium">${recipe.totalCost.toFixed(2)}</span>
+                      <span className="font-medium">${breakdown.total.toFixed(2)}</span>
                     </p>
+                    <CostBreakdownList breakdown={breakdown} />
                     <div className="pt-2 mt-2 border-t border-slate-100 flex justify-between text-rose-600 font-bold">
                       <span>Costo Base:</span>
-                      <span>${recipe.costPerGram.toFixed(4)} / gr</span>
+                      <span>${(recipe.totalYieldWeight > 0 ? breakdown.total / recipe.totalYieldWeight : 0).toFixed(4)} / {getYieldUnitLabel(recipe)}</span>
+                    </div>
+                    <p className="flex justify-between">
+                      <span>Precio Sugerido ({getPricingLabel(rule)}):</span>
+                      <span className="font-medium">${suggestedPrice.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}</span>
+                    </p>
+                    {(recipe.formats || []).map(format => (
+                      <p key={format.id} className="flex justify-between text-xs text-slate-500">
+                        <span>{format.name} ({format.quantity} {getYieldUnitLabel(recipe)})</span>
+                        <span className="font-medium">
+                          ${getFormatPrice(
+                            format,
+                            recipe.totalYieldWeight > 0 ? breakdown.total * format.quantity / recipe.totalYieldWeight : 0,
+                            1,
+                            rule
+                          ).toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                        </span>
+                      </p>
+                    ))}
+                    <div className="pt-2 mt-2 border-t border-slate-100">
+                      <p className="text-xs font-semibold text-slate-500 mb-1">Nutrición {nutrition.perGram ? 'cada 100 g' : `por ${getYieldUnitLabel(recipe)}`}</p>
+                      <div className="grid grid-cols-4 gap-1 text-xs text-center">
+                        <div className="bg-slate-50 rounded p-1"><span className="block font-bold">{formatNutrient(per100.kcal)}</span>kcal</div>
+                        <div className="bg-slate-50 rounded p-1"><span className="block font-bold">{formatNutrient(per100.fat)} g</span>grasas</div>
+                        <div className="bg-slate-50 rounded p-1"><span className="block font-bold">{formatNutrient(per100.protein)} g</span>prot.</div>
+                        <div className="bg-rose-50 text-rose-600 rounded p-1"><span className="block font-bold">{formatNutrient(getNetCarbs(per100))} g</span>netos</div>
+                      </div>
+                      <p className="text-xs text-slate-400 mt-1">
+                        Receta completa: {formatNutrient(nutrition.total.kcal)} kcal · {formatNutrient(getNetCarbs(nutrition.total))} g carbs netos
+                      </p>
+                      {nutrition.missingIngredientIds.length > 0 && (
+                        <p className="text-xs text-slate-400 italic">
+                          {nutrition.missingIngredientIds.length} ingrediente(s) sin datos nutricionales.
+                        </p>
+                      )}
                     </div>
+                    {live.missingIngredientIds.length > 0 && (
+                      <div className="mt-2 bg-red-50 border border-red-200 text-red-600 text-xs p-2 rounded-lg">
+                        {live.missingIngredientIds.length} ingrediente(s) eliminado(s). Edita la receta para reemplazarlos.
+                      </div>
+                    )}
+                    {getYieldGrams(recipe) !== null && checkYield(getYieldGrams(recipe)!, getRawMass(recipe.ingredients, recipe.components || [], availableIngredients, savedRecipes)) !== 'ok' && (
+                      <div className="mt-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs p-2 rounded-lg">
+                        El rendimiento ({recipe.totalYieldWeight} gr/un) no parece coincidir con el peso de los ingredientes.
+                      </div>
+                    )}
+                    {live.hasCycle && (
+                      <div className="mt-2 bg-red-50 border border-red-200 text-red-600 text-xs p-2 rounded-lg">
+                        Las sub-recetas forman un ciclo; parte del costo no se puede calcular.
+                      </div>
+                    )}
+                    {costChanged && (
+                      <div className="mt-2 bg-amber-50 border border-amber-200 text-amber-700 text-xs p-2 rounded-lg">
+                        El costo de ingredientes cambió desde el último guardado: ${recipe.costPerGram.toFixed(4)} → ${live.costPerGram.toFixed(4)} / gr
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {productionRecipeId === recipe.id && (
+                  <div className="flex gap-2 items-center mt-2 p-2 bg-rose-50 rounded-lg">
+                    <input
+                      type="number"
+                      step="any"
+                      value={productionBatches}
+                      onChange={(e) => setProductionBatches(e.target.value)}
+                      className="w-20 p-2 rounded-lg border border-rose-300 text-sm text-black bg-white"
+                    />
+                    <span className="text-xs text-slate-500 flex-1">tanda(s)</span>
+                    <button
+                      type="button"
+                      onClick={() => handleProduction(recipe)}
+                      className="px-3 py-2 text-xs font-bold text-white bg-rose-500 rounded-lg hover:bg-rose-600"
+                    >
+                      Descontar stock
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setProductionRecipeId(null)}
+                      className="px-2 py-2 text-xs font-bold text-slate-500"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex gap-2 mt-2 pt-3 border-t border-slate-50">
+                  <button
+                    type="button"
+                    onClick={() => { setProductionRecipeId(recipe.id); setProductionBatches('1'); }}
+                    className="flex-1 py-2 text-sm font-semibold text-slate-600 bg-slate-50 rounded-lg hover:bg-slate-100 transition"
+                  >
+                    Producir
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setScalingRecipeId(recipe.id); window.scrollTo({ top: 0, behavior: 'smooth' }); }}
+                    className="flex-1 py-2 text-sm font-semibold text-slate-600 bg-slate-50 rounded-lg hover:bg-slate-100 transition"
+                  >
+                    Escalar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setDetailRecipeId(recipe.id); window.scrollTo({ top: 0, behavior: 'smooth' }); }}
+                    className="flex-1 py-2 text-sm font-semibold text-slate-600 bg-slate-50 rounded-lg hover:bg-slate-100 transition"
+                  >
+                    Costos
+                  </button>
                   <button 
                     type="button"
                     onClick={() => handleEdit(recipe)}
@@ -384,7 +1112,8 @@ const Recipes: React.FC<Props> = ({ userId }) => {
                   </button>
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
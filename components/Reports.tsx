@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { collection, query, where, onSnapshot, doc, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Recipe, Sale, UserSettings } from '../types';
+import { parseSettings } from '../settings';
+import { downloadCsv } from '../csv';
+import { todayISO } from '../dates';
+import { formatAmount } from '../pdf';
+import {
+  ReportTable, SALES_PERIOD_LABELS, SalesPeriod, SalesPeriodRow, generateReportPdf, getCostRanking,
+  getIngredientContributions, getRecipeMargins, getSalesByPeriod
+} from '../reports';
+import BarChart, { BarChartItem } from './BarChart';
+
+interface Props {
+  userId: string;
+}
+
+type ReportKind = 'cost' | 'margin' | 'ingredients' | 'sales';
+
+const REPORT_LABELS: Record<ReportKind, string> = {
+  cost: 'Costo por kg',
+  margin: 'Margen',
+  ingredients: 'Ingredientes',
+  sales: 'Ventas'
+};
+
+// Only the top of each ranking is charted; the table below has every row
+const CHART_LIMIT = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const COLUMN_WIDTH = 24;
+const COLUMN_GAP = 8;
+const SALES_CHART_HEIGHT = 120;
+
+// Revenue columns with the gross profit drawn inside, oldest period first
+const SalesChart: React.FC<{ rows: SalesPeriodRow[] }> = ({ rows }) => {
+  const max = Math.max(...rows.map(row => row.revenue), 0) || 1;
+  const width = Math.max(rows.length * (COLUMN_WIDTH + COLUMN_GAP), 300);
+  const height = (value: number) => (Math.max(value, 0) / max) * SALES_CHART_HEIGHT;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg viewBox={`0 0 ${width} ${SALES_CHART_HEIGHT + 30}`} style={{ minWidth: width }} className="w-full">
+        {rows.map((row, index) => {
+          const x = index * (COLUMN_WIDTH + COLUMN_GAP);
+          return (
+            <g key={row.start}>
+              <rect x={x} y={SALES_CHART_HEIGHT - height(row.revenue)} width={COLUMN_WIDTH} height={height(row.revenue)} rx={3} fill="#fecdd3" />
+              <rect x={x + 4} y={SALES_CHART_HEIGHT - height(row.profit)} width={COLUMN_WIDTH - 8} height={height(row.profit)} rx={2} fill="#e11d48" />
+              <text x={x + COLUMN_WIDTH / 2} y={SALES_CHART_HEIGHT + 12} fontSize={8} textAnchor="middle" fill="#64748b">
+                {row.label.replace('Sem. ', '')}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex gap-4 text-xs text-slate-500 mt-1">
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-rose-200 align-middle mr-1" />Facturación</span>
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-rose-600 align-middle mr-1" />Ganancia bruta</span>
+      </div>
+    </div>
+  );
+};
+
+const Reports: React.FC<Props> = ({ userId }) => {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+  const [report, setReport] = useState<ReportKind>('cost');
+  const [period, setPeriod] = useState<SalesPeriod>('week');
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setIngredients(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient)));
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setRecipes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe)));
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'sales'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setSales(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Sale)));
+      },
+      (err) => console.error("Error loading sales:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const money = (value: number) => formatAmount(value, settings.profile.currency);
+  const salesRows = getSalesByPeriod(sales, period);
+
+  // Each report is built as a table (shared by the screen, the PDF and the
+  // CSV) plus the bars for its chart
+  const buildReport = (): { table: ReportTable; chart: BarChartItem[] } => {
+    switch (report) {
+      case 'margin': {
+        const rows = getRecipeMargins(recipes, ingredients, settings);
+        return {
+          table: {
+            title: 'Margen por receta',
+            fileName: 'reporte_margen',
+            header: ['Receta', 'Costo', 'Precio', 'Margen', 'Margen %'],
+            rows: rows.map(row => [row.recipe.name, round(row.cost), round(row.price), round(row.margin), round(row.marginPercent)])
+          },
+          chart: rows.slice(0, CHART_LIMIT).map(row => ({
+            label: row.recipe.name,
+            value: row.marginPercent,
+            display: `${row.marginPercent.toFixed(1)}%`
+          }))
+        };
+      }
+      case 'ingredients': {
+        const rows = getIngredientContributions(recipes, ingredients, settings);
+        return {
+          table: {
+            title: 'Ingredientes con más peso en el costo',
+            fileName: 'reporte_ingredientes',
+            header: ['Ingrediente', 'Costo', '% del total', 'Recetas'],
+            rows: rows.map(row => [row.ingredient.name, round(row.cost), round(row.share), row.recipeCount])
+          },
+          chart: rows.slice(0, CHART_LIMIT).map(row => ({
+            label: row.ingredient.name,
+            value: row.share,
+            display: `${row.share.toFixed(1)}%`
+          }))
+        };
+      }
+      case 'sales':
+        return {
+          table: {
+            title: `Ventas por ${SALES_PERIOD_LABELS[period].toLowerCase()}`,
+            fileName: `reporte_ventas_${period}`,
+            header: [SALES_PERIOD_LABELS[period], 'Ventas', 'Facturación', 'Costo', 'Ganancia bruta'],
+            rows: salesRows.map(row => [row.start, row.count, round(row.revenue), round(row.cost), round(row.profit)])
+          },
+          chart: []
+        };
+      default: {
+        const rows = getCostRanking(recipes, ingredients, settings);
+        return {
+          table: {
+            title: 'Ranking de costo',
+            fileName: 'reporte_costo',
+            header: ['Receta', 'Costo', 'Por'],
+            rows: rows.map(row => [row.recipe.name, round(row.cost), row.per])
+          },
+          // Per-unit costs can't share a scale with per-kg ones
+          chart: rows.filter(row => row.per === 'kg').slice(0, CHART_LIMIT).map(row => ({
+            label: row.recipe.name,
+            value: row.cost,
+            display: money(row.cost)
+          }))
+        };
+      }
+    }
+  };
+
+  const { table, chart } = buildReport();
+  const totals = salesRows.reduce(
+    (sum, row) => ({ revenue: sum.revenue + row.revenue, profit: sum.profit + row.profit }),
+    { revenue: 0, profit: 0 }
+  );
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <h2 className="text-xl font-bold text-rose-500">Reportes</h2>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(REPORT_LABELS) as ReportKind[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => setReport(kind)}
+              className={`px-3 py-1.5 rounded-xl text-xs font-medium border transition ${report === kind ? 'bg-rose-500 text-white border-rose-500' : 'bg-gray-50 text-slate-600 border-rose-200 hover:bg-rose-50'}`}
+            >
+              {REPORT_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+
+        {report === 'sales' && (
+          <div className="flex gap-2">
+            {(Object.keys(SALES_PERIOD_LABELS) as SalesPeriod[]).map(p => (
+              <button
+                key={p}
+                type="button"
+                onClick={() => setPeriod(p)}
+                className={`flex-1 py-2 rounded-xl text-sm font-bold transition ${period === p ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600'}`}
+              >
+                {SALES_PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-700 mb-2">{table.title}</h3>
+          {table.rows.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">
+              {report === 'sales' ? 'Todavía no hay ventas registradas.' : 'Todavía no hay datos para este reporte.'}
+            </p>
+          ) : report === 'sales' ? (
+            <>
+              <SalesChart rows={salesRows} />
+              <div className="grid grid-cols-2 gap-2 mt-3 text-sm">
+                <div className="bg-slate-50 p-3 rounded-xl">
+                  <p className="text-xs text-slate-500">Facturación</p>
+                  <p className="font-bold text-slate-800">{money(totals.revenue)}</p>
+                </div>
+                <div className="bg-slate-50 p-3 rounded-xl">
+                  <p className="text-xs text-slate-500">Ganancia bruta</p>
+                  <p className="font-bold text-rose-600">{money(totals.profit)}</p>
+                </div>
+              </div>
+            </>
+          ) : (
+            <BarChart items={chart} color={report === 'margin' ? '#10b981' : '#f43f5e'} />
+          )}
+        </div>
+
+        {table.rows.length > 0 && (
+          <>
+            <div className="max-h-80 overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-400">
+                    {table.header.map((cell, index) => (
+                      <th key={index} className={`font-medium pb-1 ${index > 0 ? 'text-right' : ''}`}>{cell}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {table.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((cell, index) => (
+                        <td key={index} className={`py-1 ${index > 0 ? 'text-right text-slate-600' : 'text-slate-700'}`}>
+                          {typeof cell === 'number' ? cell.toLocaleString('es-AR', { maximumFractionDigits: 2 }) : cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => generateReportPdf(table, settings.profile)}
+                className="py-2.5 rounded-xl font-bold text-sm bg-slate-800 text-white hover:bg-slate-900 transition"
+              >
+                Descargar PDF
+              </button>
+              <button
+                type="button"
+                onClick={() => downloadCsv([table.header, ...table.rows], `${table.fileName}_${todayISO()}.csv`)}
+                className="py-2.5 rounded-xl font-bold text-sm bg-slate-100 text-slate-700 hover:bg-slate-200 transition"
+              >
+                Descargar CSV
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { collection, query, where, onSnapshot, doc, updateDoc, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { PAYMENT_METHOD_LABELS, Sale } from '../types';
+
+interface Props {
+  userId: string;
+}
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const Sales: React.FC<Props> = ({ userId }) => {
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [product, setProduct] = useState('');
+  const [showVoided, setShowVoided] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'sales'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Sale));
+        // Newest first
+        data.sort((a, b) => b.createdAt - a.createdAt);
+        setSales(data);
+      },
+      (err) => {
+        console.error("Firestore Error:", err);
+        setErrorMsg("Error al cargar las ventas. Verifica permisos de Firebase.");
+      }
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const handleVoid = async (sale: Sale) => {
+    if (!window.confirm('¿Anular esta venta? Quedará en el historial marcada como anulada.')) return;
+    try {
+      await updateDoc(doc(db, 'sales', sale.id), { voided: true });
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('No se pudo anular la venta.');
+    }
+  };
+
+  // Product names come from the sales themselves so deleted recipes still show up
+  const productNames = Array.from(new Set(sales.flatMap(s => s.items.map(i => i.recipeName)))).sort();
+
+  const filtered = sales.filter(sale =>
+    (!fromDate || sale.date >= fromDate) &&
+    (!toDate || sale.date <= toDate) &&
+    (!product || sale.items.some(i => i.recipeName === product)) &&
+    (showVoided || !sale.voided)
+  );
+
+  const active = filtered.filter(s => !s.voided);
+  const revenue = active.reduce((sum, s) => sum + s.total, 0);
+  const cost = active.reduce((sum, s) => sum + s.totalCost, 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <h2 className="text-xl font-bold text-rose-500">Historial de Ventas</h2>
+
+        {errorMsg && (
+          <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg text-sm">
+            {errorMsg}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Desde</label>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Hasta</label>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Producto</label>
+            <select
+              value={product}
+              onChange={(e) => setProduct(e.target.value)}
+              className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+            >
+              <option value="">Todos</option>
+              {productNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={showVoided}
+            onChange={(e) => setShowVoided(e.target.checked)}
+            className="accent-rose-500"
+          />
+          Mostrar ventas anuladas
+        </label>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-rose-50 rounded-xl p-3">
+            <p className="text-xs text-slate-500">Ventas</p>
+            <p className="font-bold text-slate-800">{active.length}</p>
+          </div>
+          <div className="bg-rose-50 rounded-xl p-3">
+            <p className="text-xs text-slate-500">Ingresos</p>
+            <p className="font-bold text-slate-800">{formatMoney(revenue)}</p>
+          </div>
+          <div className="bg-rose-50 rounded-xl p-3">
+            <p className="text-xs text-slate-500">Ganancia Bruta</p>
+            <p className="font-bold text-slate-800">{formatMoney(revenue - cost)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {filtered.length === 0 ? (
+          <p className="text-center text-slate-400 py-8 italic">No hay ventas para estos filtros.</p>
+        ) : (
+          filtered.map(sale => (
+            <div
+              key={sale.id}
+              className={`bg-white p-4 rounded-xl shadow-sm border-l-4 ${sale.voided ? 'border-slate-300 opacity-60' : 'border-rose-300'}`}
+            >
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  <p className="text-xs text-slate-400">
+                    {sale.date} · {PAYMENT_METHOD_LABELS[sale.paymentMethod]}{sale.customer ? ` · ${sale.customer}` : ''}
+                  </p>
+                  {sale.items.map((item, index) => (
+                    <p key={index} className="text-sm text-slate-700">
+                      {item.recipeName} <span className="text-slate-400">({item.format || `${item.quantity} gr/un`})</span>
+                    </p>
+                  ))}
+                  {sale.discount > 0 && (
+                    <p className="text-xs text-slate-400">Descuento: -{formatMoney(sale.discount)}</p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p className={`font-bold ${sale.voided ? 'line-through text-slate-400' : 'text-slate-800'}`}>{formatMoney(sale.total)}</p>
+                  {sale.voided ? (
+                    <span className="text-xs font-bold text-slate-500">ANULADA</span>
+                  ) : (
+                    <button
+                      onClick={() => handleVoid(sale)}
+                      className="text-xs text-red-500 hover:text-red-700 font-medium"
+                    >
+                      Anular
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sales;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { collection, addDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { BusinessProfile, CostingSettings, Ingredient, Recipe } from '../types';
+import { DEFAULT_SERVING_SIZE } from '../label';
+import { ScaleMode, describeIngredientQuantity, formatScaledQuantity, generateProductionSheetPdf, getScaleFactor, scaleRecipe } from '../scaling';
+
+interface Props {
+  userId: string;
+  recipe: Recipe;
+  ingredients: Ingredient[];
+  recipes: Recipe[];
+  costing: CostingSettings;
+  profile: BusinessProfile;
+  onClose: () => void;
+  onSaved: (name: string) => void;
+}
+
+const ScalePanel: React.FC<Props> = ({ userId, recipe, ingredients, recipes, costing, profile, onClose, onSaved }) => {
+  const [mode, setMode] = useState<ScaleMode>('multiplier');
+  const [value, setValue] = useState('1.5');
+  const [variantName, setVariantName] = useState('');
+  const [error, setError] = useState('');
+
+  const factor = getScaleFactor(recipe, mode, parseFloat(value));
+  const scaled = factor > 0 ? scaleRecipe(recipe, factor, ingredients, recipes, costing) : null;
+  const defaultName = `${recipe.name} (x${formatScaledQuantity(factor)})`;
+
+  const handleSaveVariant = async () => {
+    if (!scaled) return;
+    const name = variantName.trim() || defaultName;
+    if (recipes.some(r => r.name.toLowerCase() === name.toLowerCase())) {
+      setError('Ya existe una receta con ese nombre.');
+      return;
+    }
+
+    try {
+      await addDoc(collection(db, 'recipes'), {
+        userId,
+        name,
+        ingredients: scaled.ingredients,
+        components: scaled.components,
+        totalYieldWeight: scaled.totalYieldWeight,
+        totalCost: scaled.totalCost,
+        costPerGram: scaled.costPerGram,
+        pricing: recipe.pricing || null,
+        servingSize: recipe.servingSize || DEFAULT_SERVING_SIZE,
+        allergens: recipe.allergens || '',
+        labourMinutes: recipe.labourMinutes || 0,
+        ovenMinutes: recipe.ovenMinutes || 0,
+        moistureLossPercent: recipe.moistureLossPercent || 0,
+        yieldType: recipe.yieldType || 'weight',
+        portionWeight: recipe.portionWeight || 0,
+        formats: recipe.formats || []
+      });
+      onSaved(name);
+    } catch (err) {
+      console.error(err);
+      setError('Error al guardar la variante. Verifica tu conexión.');
+    }
+  };
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-bold text-rose-500">Escalar: {recipe.name}</h3>
+          <p className="text-sm text-slate-500">
+            Receta guardada: {recipe.totalYieldWeight} gr/un
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-bold px-2">✕</button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex bg-rose-50 rounded-xl p-1 text-sm font-medium">
+        <button
+          onClick={() => { setMode('multiplier'); setValue('1.5'); }}
+          className={`flex-1 py-2 rounded-lg transition ${mode === 'multiplier' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+        >
+          Multiplicador
+        </button>
+        <button
+          onClick={() => { setMode('yield'); setValue(recipe.totalYieldWeight.toString()); }}
+          className={`flex-1 py-2 rounded-lg transition ${mode === 'yield' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+        >
+          Rendimiento deseado
+        </button>
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className={inputClass}
+          placeholder={mode === 'multiplier' ? 'Ej. 1.5' : 'Ej. 3000'}
+        />
+        <span className="text-sm text-slate-500 w-16">{mode === 'multiplier' ? 'veces' : 'gr/un'}</span>
+      </div>
+
+      {scaled ? (
+        <>
+          <div className="space-y-1 text-sm">
+            {scaled.ingredients.map((item, index) => {
+              const ing = ingredients.find(i => i.id === item.ingredientId);
+              return (
+                <p key={index} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="text-slate-700">{ing ? ing.name : '⚠ Ingrediente eliminado'}</span>
+                  <span className="font-medium text-slate-800">
+                    {describeIngredientQuantity(item, ing)}
+                    <span className="text-xs text-slate-400 ml-2">${item.calculatedCost.toFixed(2)}</span>
+                  </span>
+                </p>
+              );
+            })}
+            {(scaled.components || []).map((component, index) => {
+              const sub = recipes.find(r => r.id === component.recipeId);
+              return (
+                <p key={`component-${index}`} className="flex justify-between border-b border-slate-50 pb-1">
+                  <span className="text-slate-700">{sub ? sub.name : '⚠ Sub-receta eliminada'}</span>
+                  <span className="font-medium text-slate-800">
+                    {formatScaledQuantity(component.quantityUsed)} gr/un
+                    <span className="text-xs text-slate-400 ml-2">${component.calculatedCost.toFixed(2)}</span>
+                  </span>
+                </p>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-center">
+            <div className="bg-rose-50 rounded-xl p-3">
+              <p className="text-xs text-slate-500">Rendimiento</p>
+              <p className="font-bold text-slate-800">{formatScaledQuantity(scaled.totalYieldWeight)} gr/un</p>
+            </div>
+            <div className="bg-rose-50 rounded-xl p-3">
+              <p className="text-xs text-slate-500">Costo Total</p>
+              <p className="font-bold text-slate-800">${scaled.totalCost.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <button
+            onClick={() => generateProductionSheetPdf(scaled, factor, ingredients, recipes, profile)}
+            className="w-full py-2 text-sm font-semibold text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100"
+          >
+            Imprimir hoja de producción
+          </button>
+
+          <div className="flex gap-2 pt-3 border-t border-slate-100">
+            <input
+              type="text"
+              value={variantName}
+              onChange={(e) => setVariantName(e.target.value)}
+              className={inputClass}
+              placeholder={defaultName}
+            />
+            <button
+              onClick={handleSaveVariant}
+              className="px-3 py-2 text-xs font-bold text-white bg-rose-500 rounded-lg hover:bg-rose-600 whitespace-nowrap"
+            >
+              Guardar variante
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-center text-slate-400 italic text-sm">Ingresa un valor mayor a cero.</p>
+      )}
+    </div>
+  );
+};
+
+export default ScalePanel;
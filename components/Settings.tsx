@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { BusinessProfile, CostingMethod, PackagingItem, PrinterConnection, PrinterSettings, PrinterWidth } from '../types';
+import { parseSettings, DEFAULT_PRICING_RULE, DEFAULT_COSTING, DEFAULT_PROFILE, DEFAULT_PRINTER, DEFAULT_DIETARY } from '../settings';
+import { readLogoFile } from '../pdf';
+import { PRINTER_CONNECTIONS, PRINTER_WIDTHS, isPrinterConnectionSupported } from '../escpos';
+import PricingRuleForm, { PricingRuleDraft, toPricingDraft, fromPricingDraft } from './PricingRuleForm';
+import DataTransfer from './DataTransfer';
+
+interface Props {
+  userId: string;
+}
+
+interface LocalPackagingItem {
+  id: string;
+  name: string;
+  cost: string;
+}
+
+const Settings: React.FC<Props> = ({ userId }) => {
+  const [pricingDraft, setPricingDraft] = useState<PricingRuleDraft>(toPricingDraft(DEFAULT_PRICING_RULE));
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING.method);
+  const [costingWindow, setCostingWindow] = useState(DEFAULT_COSTING.window.toString());
+  const [labourRate, setLabourRate] = useState('');
+  const [energyRate, setEnergyRate] = useState('');
+  const [monthlyOverhead, setMonthlyOverhead] = useState('');
+  const [monthlyProduction, setMonthlyProduction] = useState('');
+  const [packaging, setPackaging] = useState<LocalPackagingItem[]>([]);
+  const [profile, setProfile] = useState<BusinessProfile>(DEFAULT_PROFILE);
+  const [printer, setPrinter] = useState<PrinterSettings>(DEFAULT_PRINTER);
+  const [ketoNetCarbLimit, setKetoNetCarbLimit] = useState(DEFAULT_DIETARY.ketoNetCarbLimit.toString());
+  const [successMsg, setSuccessMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'settings', userId),
+      (snapshot) => {
+        const settings = parseSettings(userId, snapshot.data());
+        setPricingDraft(toPricingDraft(settings.pricing));
+        setCostingMethod(settings.costing.method);
+        setCostingWindow(settings.costing.window.toString());
+        setLabourRate(settings.overhead.labourRate ? settings.overhead.labourRate.toString() : '');
+        setEnergyRate(settings.overhead.energyRate ? settings.overhead.energyRate.toString() : '');
+        setMonthlyOverhead(settings.overhead.monthlyOverhead ? settings.overhead.monthlyOverhead.toString() : '');
+        setMonthlyProduction(settings.overhead.monthlyProduction ? settings.overhead.monthlyProduction.toString() : '');
+        setPackaging(settings.packaging.map(item => ({ id: item.id, name: item.name, cost: item.cost.toString() })));
+        setProfile(settings.profile);
+        setPrinter(settings.printer);
+        setKetoNetCarbLimit(settings.dietary.ketoNetCarbLimit.toString());
+      },
+      (err) => {
+        console.error("Firestore Error:", err);
+        setErrorMsg("Error al cargar la configuración. Verifica permisos de Firebase.");
+      }
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg('');
+    try {
+      await setDoc(doc(db, 'settings', userId), {
+        userId,
+        pricing: fromPricingDraft(pricingDraft),
+        costing: {
+          method: costingMethod,
+          window: parseInt(costingWindow) || DEFAULT_COSTING.window
+        },
+        overhead: {
+          labourRate: parseFloat(labourRate) || 0,
+          energyRate: parseFloat(energyRate) || 0,
+          monthlyOverhead: parseFloat(monthlyOverhead) || 0,
+          monthlyProduction: parseFloat(monthlyProduction) || 0
+        },
+        packaging: packaging
+          .filter(item => item.name.trim())
+          .map((item): PackagingItem => ({ id: item.id, name: item.name.trim(), cost: parseFloat(item.cost) || 0 })),
+        profile: {
+          ...profile,
+          name: profile.name.trim(),
+          currency: profile.currency.trim() || DEFAULT_PROFILE.currency
+        },
+        printer,
+        dietary: {
+          ketoNetCarbLimit: isNaN(parseFloat(ketoNetCarbLimit)) ? DEFAULT_DIETARY.ketoNetCarbLimit : parseFloat(ketoNetCarbLimit)
+        }
+      }, { merge: true });
+      setSuccessMsg('Configuración guardada.');
+      setTimeout(() => setSuccessMsg(''), 3000);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al guardar. Verifica tu conexión.');
+    }
+  };
+
+  const updatePackaging = (index: number, field: 'name' | 'cost', value: string) => {
+    const newList = [...packaging];
+    newList[index] = { ...newList[index], [field]: value };
+    setPackaging(newList);
+  };
+
+  const updateProfile = (field: keyof BusinessProfile, value: string) => {
+    setProfile({ ...profile, [field]: value });
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateProfile('logo', await readLogoFile(file));
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('No se pudo leer la imagen del logo.');
+    }
+  };
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-rose-500">Regla de Precio</h2>
+          <p className="text-sm text-slate-500">Se usa en la calculadora, las recetas y el ticket, salvo que la receta tenga su propia regla.</p>
+        </div>
+
+        {errorMsg && (
+          <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg text-sm">
+            {errorMsg}
+          </div>
+        )}
+
+        <PricingRuleForm value={pricingDraft} onChange={setPricingDraft} />
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Costeo de Ingredientes</h2>
+            <p className="text-sm text-slate-500">Qué precio de cada ingrediente se usa para calcular el costo de las recetas.</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Método</label>
+              <select
+                value={costingMethod}
+                onChange={(e) => setCostingMethod(e.target.value as CostingMethod)}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+              >
+                <option value="latest">Último precio</option>
+                <option value="weightedAverage">Promedio ponderado de compras</option>
+                <option value="highest">Precio más alto reciente</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Últimos N</label>
+              <input
+                type="number"
+                min="1"
+                value={costingWindow}
+                onChange={(e) => setCostingWindow(e.target.value)}
+                disabled={costingMethod === 'latest'}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 disabled:bg-slate-100"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Costos Indirectos</h2>
+            <p className="text-sm text-slate-500">Se suman al costo de ingredientes de cada receta según sus minutos de trabajo y de horno.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Mano de obra ($/hora)</label>
+              <input type="number" step="any" value={labourRate} onChange={(e) => setLabourRate(e.target.value)} className={inputClass} placeholder="0" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Energía horno ($/hora)</label>
+              <input type="number" step="any" value={energyRate} onChange={(e) => setEnergyRate(e.target.value)} className={inputClass} placeholder="0" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Gastos fijos ($/mes)</label>
+              <input type="number" step="any" value={monthlyOverhead} onChange={(e) => setMonthlyOverhead(e.target.value)} className={inputClass} placeholder="Alquiler, servicios..." />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Producción (gr/un por mes)</label>
+              <input type="number" step="any" value={monthlyProduction} onChange={(e) => setMonthlyProduction(e.target.value)} className={inputClass} placeholder="Ej. 80000" />
+            </div>
+          </div>
+          {parseFloat(monthlyOverhead) > 0 && parseFloat(monthlyProduction) > 0 && (
+            <p className="text-xs text-slate-500">
+              Gastos fijos por gr/un: ${(parseFloat(monthlyOverhead) / parseFloat(monthlyProduction)).toFixed(4)}
+            </p>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Packaging</h2>
+            <p className="text-sm text-slate-500">Cajas, cintas y bolsas que se eligen en cada venta desde la calculadora.</p>
+          </div>
+          {packaging.map((item, index) => (
+            <div key={item.id} className="flex gap-2 items-center">
+              <input type="text" value={item.name} onChange={(e) => updatePackaging(index, 'name', e.target.value)} className={`${inputClass} flex-1`} placeholder="Ej. Caja torta 24 cm" />
+              <input type="number" step="any" value={item.cost} onChange={(e) => updatePackaging(index, 'cost', e.target.value)} className={`${inputClass} w-24`} placeholder="$" />
+              <button
+                type="button"
+                onClick={() => setPackaging(packaging.filter((_, i) => i !== index))}
+                className="text-red-400 hover:text-red-600 px-2 font-bold"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setPackaging([...packaging, { id: crypto.randomUUID(), name: '', cost: '' }])}
+            className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+          >
+            + Agregar Packaging
+          </button>
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Etiquetas Dietarias</h2>
+            <p className="text-sm text-slate-500">Una receta se marca como Keto si sus carbohidratos netos no superan este límite.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Carbs netos máximos (g cada 100 g)</label>
+            <input type="number" step="any" min="0" value={ketoNetCarbLimit} onChange={(e) => setKetoNetCarbLimit(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Perfil del Negocio</h2>
+            <p className="text-sm text-slate-500">Aparece en los tickets, presupuestos, etiquetas y demás PDFs.</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Nombre del negocio</label>
+              <input type="text" value={profile.name} onChange={(e) => updateProfile('name', e.target.value)} className={inputClass} placeholder="Ej. Dulce Keto" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Moneda</label>
+              <input type="text" value={profile.currency} onChange={(e) => updateProfile('currency', e.target.value)} className={inputClass} placeholder="$" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Logo</label>
+            <div className="flex items-center gap-3">
+              {profile.logo && (
+                <img src={profile.logo} alt="Logo" className="w-16 h-16 object-contain rounded-xl border border-rose-100 bg-gray-50" />
+              )}
+              <input type="file" accept="image/*" onChange={handleLogoChange} className="text-sm text-slate-600 flex-1" />
+              {profile.logo && (
+                <button
+                  type="button"
+                  onClick={() => updateProfile('logo', '')}
+                  className="text-red-400 hover:text-red-600 px-2 font-bold"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Instagram</label>
+              <input type="text" value={profile.instagram} onChange={(e) => updateProfile('instagram', e.target.value)} className={inputClass} placeholder="@minegocio" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Facebook</label>
+              <input type="text" value={profile.facebook} onChange={(e) => updateProfile('facebook', e.target.value)} className={inputClass} placeholder="facebook.com/minegocio" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Sitio web</label>
+              <input type="text" value={profile.website} onChange={(e) => updateProfile('website', e.target.value)} className={inputClass} placeholder="www.minegocio.com" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Teléfono</label>
+              <input type="text" value={profile.phone} onChange={(e) => updateProfile('phone', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Dirección</label>
+              <input type="text" value={profile.address} onChange={(e) => updateProfile('address', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">CUIT</label>
+              <input type="text" value={profile.taxId} onChange={(e) => updateProfile('taxId', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">Mensaje al pie del ticket</label>
+            <input type="text" value={profile.footer} onChange={(e) => updateProfile('footer', e.target.value)} className={inputClass} placeholder={DEFAULT_PROFILE.footer} />
+          </div>
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 space-y-3">
+          <div>
+            <h2 className="text-xl font-bold text-rose-500">Impresora Térmica</h2>
+            <p className="text-sm text-slate-500">Para imprimir el ticket directo en una impresora ESC/POS desde la calculadora.</p>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">Papel</label>
+              <select
+                value={printer.width}
+                onChange={(e) => setPrinter({ ...printer, width: parseInt(e.target.value) as PrinterWidth })}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+              >
+                {PRINTER_WIDTHS.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Conexión</label>
+              <select
+                value={printer.connection}
+                onChange={(e) => setPrinter({ ...printer, connection: e.target.value as PrinterConnection })}
+                className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+              >
+                {PRINTER_CONNECTIONS.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          </div>
+          {!isPrinterConnectionSupported(printer.connection) && (
+            <p className="text-xs text-amber-700">Este navegador no admite esta conexión. Usa Chrome o Edge, o descarga el archivo .bin.</p>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={printer.qr}
+              onChange={(e) => setPrinter({ ...printer, qr: e.target.checked })}
+              className="accent-rose-500"
+            />
+            Imprimir un código QR con el Instagram del negocio
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          className="w-full bg-rose-500 text-white py-3 rounded-xl font-bold hover:bg-rose-600 transition shadow-md"
+        >
+          Guardar Configuración
+        </button>
+      </form>
+
+      <DataTransfer userId={userId} />
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { collection, query, where, onSnapshot, doc, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Order, Recipe, UserSettings } from '../types';
+import { parseSettings } from '../settings';
+import { formatStock } from '../stock';
+import { addDaysISO, todayISO } from '../dates';
+import { PlannedBatch, buildShoppingList, formatShoppingListText, generateShoppingListPdf, getOrdersPlan, getPlanUsage } from '../shopping';
+
+interface Props {
+  userId: string;
+}
+
+interface LocalPlanItem {
+  recipeId: string;
+  batches: string;
+}
+
+type Source = 'recipes' | 'orders';
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const ShoppingList: React.FC<Props> = ({ userId }) => {
+  // Data States
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+
+  // Plan States
+  const [source, setSource] = useState<Source>('recipes');
+  const [planItems, setPlanItems] = useState<LocalPlanItem[]>([{ recipeId: '', batches: '1' }]);
+  const [fromDate, setFromDate] = useState(todayISO());
+  const [toDate, setToDate] = useState(addDaysISO(7));
+  const [subtractStock, setSubtractStock] = useState(true);
+
+  const [copyMsg, setCopyMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setRecipes(data);
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setIngredients(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient)));
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'orders'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setOrders(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Order)));
+      },
+      (err) => console.error("Error loading orders:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Orders still to be produced within the selected dates
+  const openOrders = orders.filter(o =>
+    (o.status === 'pending' || o.status === 'inProduction') &&
+    (!fromDate || o.deliveryDate >= fromDate) &&
+    (!toDate || o.deliveryDate <= toDate)
+  );
+
+  const plan: PlannedBatch[] = source === 'orders'
+    ? getOrdersPlan(openOrders, recipes)
+    : planItems.map(item => ({ recipeId: item.recipeId, batches: parseFloat(item.batches) || 0 }));
+
+  const list = buildShoppingList(getPlanUsage(plan, recipes), ingredients, settings.costing, subtractStock);
+  const toBuyCount = list.lines.filter(line => line.packages > 0).length;
+
+  const updatePlanItem = (index: number, field: keyof LocalPlanItem, value: string) => {
+    const newList = [...planItems];
+    newList[index] = { ...newList[index], [field]: value };
+    setPlanItems(newList);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatShoppingListText(list, settings.profile.currency));
+      setCopyMsg('Lista copiada.');
+    } catch (err) {
+      console.error(err);
+      setCopyMsg('No se pudo copiar la lista.');
+    }
+    setTimeout(() => setCopyMsg(''), 3000);
+  };
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <h2 className="text-xl font-bold text-rose-500">Lista de Compras</h2>
+
+        <div className="flex bg-rose-50 rounded-xl p-1 text-sm font-medium">
+          <button
+            onClick={() => setSource('recipes')}
+            className={`flex-1 py-2 rounded-lg transition ${source === 'recipes' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Por recetas
+          </button>
+          <button
+            onClick={() => setSource('orders')}
+            className={`flex-1 py-2 rounded-lg transition ${source === 'orders' ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+          >
+            Por pedidos
+          </button>
+        </div>
+
+        {source === 'recipes' ? (
+          <div className="space-y-2">
+            {planItems.map((item, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <select
+                  value={item.recipeId}
+                  onChange={(e) => updatePlanItem(index, 'recipeId', e.target.value)}
+                  className={`${inputClass} flex-1`}
+                >
+                  <option value="">Seleccionar receta</option>
+                  {recipes.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={item.batches}
+                  onChange={(e) => updatePlanItem(index, 'batches', e.target.value)}
+                  className={`${inputClass} w-20`}
+                  placeholder="Tandas"
+                />
+                <button
+                  onClick={() => setPlanItems(planItems.filter((_, i) => i !== index))}
+                  className="text-red-400 hover:text-red-600 px-2 font-bold"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setPlanItems([...planItems, { recipeId: '', batches: '1' }])}
+              className="text-xs bg-rose-100 text-rose-600 px-3 py-1 rounded-full font-bold hover:bg-rose-200"
+            >
+              + Agregar Receta
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Entregas desde</label>
+                <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Hasta</label>
+                <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              {openOrders.length} pedido(s) pendiente(s) o en producción en estas fechas.
+            </p>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={subtractStock}
+            onChange={(e) => setSubtractStock(e.target.checked)}
+            className="accent-rose-500"
+          />
+          Descontar el stock actual
+        </label>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        {list.lines.length === 0 ? (
+          <p className="text-center text-slate-400 py-4 italic">Selecciona qué vas a producir para armar la lista.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {list.lines.map(line => (
+                <div
+                  key={line.ingredientId}
+                  className={`flex justify-between items-center gap-2 text-sm border-b border-slate-50 pb-2 ${line.packages === 0 ? 'opacity-50' : ''}`}
+                >
+                  <div>
+                    <p className="font-medium text-slate-800">{line.name}</p>
+                    <p className="text-xs text-slate-400">
+                      Necesario {formatStock(line.needed)} {line.unit}
+                      {subtractStock && ` · En stock ${formatStock(line.inStock)} ${line.unit}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    {line.packages > 0 ? (
+                      <>
+                        <p className="font-bold text-slate-700">{line.packages} x {formatStock(line.packageSize)} {line.unit}</p>
+                        <p className="text-xs text-slate-500">{formatMoney(line.estimatedCost)}</p>
+                      </>
+                    ) : (
+                      <p className="text-xs font-bold text-green-600">Alcanza</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between items-center bg-rose-50 rounded-xl p-3">
+              <span className="text-sm text-slate-600">{toBuyCount} insumo(s) a comprar</span>
+              <span className="font-bold text-rose-600">{formatMoney(list.total)}</span>
+            </div>
+
+            {copyMsg && <p className="text-center text-xs text-slate-500">{copyMsg}</p>}
+
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                onClick={() => generateShoppingListPdf(list, settings.profile)}
+                className="py-2 text-xs font-semibold text-rose-500 bg-rose-50 rounded-lg hover:bg-rose-100"
+              >
+                PDF
+              </button>
+              <button
+                onClick={handleCopy}
+                className="py-2 text-xs font-semibold text-slate-600 bg-slate-50 rounded-lg hover:bg-slate-100"
+              >
+                Copiar texto
+              </button>
+              <a
+                href={`https://wa.me/?text=${encodeURIComponent(formatShoppingListText(list, settings.profile.currency))}`}
+                target="_blank"
+                rel="noreferrer"
+                className="py-2 text-xs text-center font-semibold text-green-600 bg-green-50 rounded-lg hover:bg-green-100"
+              >
+                WhatsApp
+              </a>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingList;
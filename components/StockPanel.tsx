@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { collection, query, where, onSnapshot, doc, writeBatch, increment, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, StockMovement, StockMovementType } from '../types';
+import { formatStock } from '../stock';
+import { todayISO } from '../dates';
+import { appendPriceEntry } from '../costing';
+import PriceHistory from './PriceHistory';
+
+interface Props {
+  userId: string;
+  ingredient: Ingredient;
+  onClose: () => void;
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  purchase: 'Compra',
+  production: 'Producción',
+  adjustment: 'Ajuste'
+};
+
+const StockPanel: React.FC<Props> = ({ userId, ingredient, onClose }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [mode, setMode] = useState<'purchase' | 'adjustment'>('purchase');
+  const [quantity, setQuantity] = useState('');
+  const [pricePaid, setPricePaid] = useState('');
+  const [supplier, setSupplier] = useState('');
+  const [date, setDate] = useState(todayISO());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const q = query(
+      collection(db, 'stockMovements'),
+      where('userId', '==', userId),
+      where('ingredientId', '==', ingredient.id)
+    );
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as StockMovement));
+        // Newest first
+        data.sort((a, b) => b.createdAt - a.createdAt);
+        setMovements(data);
+      },
+      (err) => {
+        console.error("Firestore Error:", err);
+        setError("Error al cargar los movimientos de stock.");
+      }
+    );
+    return () => unsubscribe();
+  }, [userId, ingredient.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const qty = parseFloat(quantity);
+    if (isNaN(qty) || qty === 0 || (mode === 'purchase' && qty < 0)) {
+      setError('Ingresa una cantidad válida.');
+      return;
+    }
+
+    try {
+      const movement: Omit<StockMovement, 'id'> = {
+        userId,
+        ingredientId: ingredient.id,
+        type: mode,
+        quantity: qty,
+        date,
+        createdAt: Date.now(),
+        ...(mode === 'purchase' ? { pricePaid: parseFloat(pricePaid) || 0, supplier: supplier.trim() } : {})
+      };
+
+      // A purchase with a price becomes the ingredient's latest price
+      const paid = parseFloat(pricePaid) || 0;
+      const priceUpdate = mode === 'purchase' && paid > 0
+        ? {
+            pricePerUnit: paid / qty,
+            priceHistory: appendPriceEntry(ingredient, { date, pricePerUnit: paid / qty, quantity: qty, source: 'purchase' })
+          }
+        : {};
+
+      // Stock and the movement are written together so they can't drift apart
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, 'stockMovements')), movement);
+      batch.update(doc(db, 'ingredients', ingredient.id), { stock: increment(qty), ...priceUpdate });
+      await batch.commit();
+
+      setQuantity('');
+      setPricePaid('');
+      setSupplier('');
+      setDate(todayISO());
+    } catch (err) {
+      console.error(err);
+      setError('Error al registrar el movimiento.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-bold text-rose-500">Stock: {ingredient.name}</h3>
+          <p className="text-sm text-slate-500">
+            Disponible: <span className="font-bold">{formatStock(ingredient.stock || 0)} {ingredient.unit}</span>
+            {ingredient.minStock ? ` · Mínimo: ${formatStock(ingredient.minStock)} ${ingredient.unit}` : ''}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-sm text-slate-400 hover:text-slate-600">Cerrar</button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setMode('purchase')}
+            className={`flex-1 py-2 rounded-lg text-sm font-bold ${mode === 'purchase' ? 'bg-rose-100 text-rose-700' : 'bg-slate-50 text-slate-500'}`}
+          >
+            Compra
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('adjustment')}
+            className={`flex-1 py-2 rounded-lg text-sm font-bold ${mode === 'adjustment' ? 'bg-rose-100 text-rose-700' : 'bg-slate-50 text-slate-500'}`}
+          >
+            Ajuste
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">
+              Cantidad ({ingredient.unit}){mode === 'adjustment' ? ', negativa para descontar' : ''}
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+              placeholder="0"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Fecha</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50"
+              required
+            />
+          </div>
+          {mode === 'purchase' && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Precio pagado (total)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={pricePaid}
+                  onChange={(e) => setPricePaid(e.target.value)}
+                  className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Proveedor</label>
+                <input
+                  type="text"
+                  value={supplier}
+                  onChange={(e) => setSupplier(e.target.value)}
+                  className="w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400"
+                  placeholder="Opcional"
+                />
+              </div>
+            </>
+          )}
+        </div>
+        {error && <div className="bg-red-50 text-red-500 p-3 rounded-lg text-sm border border-red-100">{error}</div>}
+        <button type="submit" className="w-full bg-rose-500 text-white py-2.5 rounded-xl font-bold hover:bg-rose-600 transition">
+          {mode === 'purchase' ? 'Registrar Compra' : 'Registrar Ajuste'}
+        </button>
+      </form>
+
+      <div>
+        <h4 className="font-semibold text-slate-700 mb-2">Movimientos</h4>
+        {movements.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Sin movimientos registrados.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 text-sm">
+            {movements.map(m => (
+              <li key={m.id} className="py-2 flex justify-between gap-2">
+                <div>
+                  <span className="font-medium text-slate-700">{MOVEMENT_LABELS[m.type]}</span>
+                  <span className="text-slate-400"> · {m.date}</span>
+                  {m.supplier && <span className="text-slate-400"> · {m.supplier}</span>}
+                  {m.batches !== undefined && <span className="text-slate-400"> · {m.batches} tanda(s)</span>}
+                </div>
+                <div className="text-right">
+                  <span className={`font-bold ${m.quantity < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                    {m.quantity > 0 ? '+' : ''}{formatStock(m.quantity)} {ingredient.unit}
+                  </span>
+                  {m.pricePaid ? <span className="block text-xs text-slate-400">${m.pricePaid.toLocaleString()}</span> : null}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <PriceHistory ingredient={ingredient} />
+    </div>
+  );
+};
+
+export default StockPanel;
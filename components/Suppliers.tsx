@@ -0,0 +1,412 @@
+import React, { useState, useEffect } from 'react';
+import { collection, addDoc, query, where, onSnapshot, doc, writeBatch, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Ingredient, Recipe, Supplier, UserSettings } from '../types';
+import { parseSettings } from '../settings';
+import { parseCsv } from '../csv';
+import { formatAmount } from '../pdf';
+import {
+  PriceChange, PriceListColumns, applyPriceChanges, getIngredientCategories, getListPricePerUnit, getPercentChanges,
+  guessPriceListColumns, matchPriceListRow, parsePriceList
+} from '../suppliers';
+import PriceChangePreview from './PriceChangePreview';
+
+interface Props {
+  userId: string;
+}
+
+// Firestore rejects batches with more than 500 writes
+const BATCH_LIMIT = 500;
+
+const COLUMN_FIELDS: { key: keyof PriceListColumns; label: string }[] = [
+  { key: 'code', label: 'Código' },
+  { key: 'name', label: 'Producto' },
+  { key: 'packageSize', label: 'Presentación' },
+  { key: 'price', label: 'Precio' }
+];
+
+interface PendingUpdate {
+  changes: PriceChange[];
+  // Price list rows also link the ingredient to the supplier and its code
+  links: { ingredientId: string; supplierId: string; supplierCode: string }[];
+}
+
+const Suppliers: React.FC<Props> = ({ userId }) => {
+  // Data States
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [settings, setSettings] = useState<UserSettings>(parseSettings(userId));
+
+  // Supplier form
+  const [name, setName] = useState('');
+  const [contact, setContact] = useState('');
+
+  // Price list
+  const [listSupplierId, setListSupplierId] = useState('');
+  const [listText, setListText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<PriceListColumns>({ code: -1, name: -1, packageSize: -1, price: -1 });
+  const [matchOverrides, setMatchOverrides] = useState<Record<number, string>>({});
+  const [linkIngredients, setLinkIngredients] = useState(true);
+
+  // Bulk increase
+  const [bulkSupplierId, setBulkSupplierId] = useState('');
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [percent, setPercent] = useState('');
+
+  const [pending, setPending] = useState<PendingUpdate | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [successMsg, setSuccessMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useEffect(() => {
+    const q = query(collection(db, 'suppliers'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Supplier));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setSuppliers(data);
+      },
+      (err) => console.error("Error loading suppliers:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'ingredients'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Ingredient));
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setIngredients(data);
+      },
+      (err) => console.error("Error loading ingredients:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const q = query(collection(db, 'recipes'), where('userId', '==', userId));
+    const unsubscribe = onSnapshot(q,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setRecipes(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Recipe)));
+      },
+      (err) => console.error("Error loading recipes:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'settings', userId),
+      (snapshot) => setSettings(parseSettings(userId, snapshot.data())),
+      (err) => console.error("Error loading settings:", err)
+    );
+    return () => unsubscribe();
+  }, [userId]);
+
+  const handleAddSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg('');
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    if (suppliers.some(s => s.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setErrorMsg('Ya existe un proveedor con ese nombre.');
+      return;
+    }
+    try {
+      await addDoc(collection(db, 'suppliers'), { userId, name: trimmedName, contact: contact.trim() });
+      setName('');
+      setContact('');
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al guardar el proveedor.');
+    }
+  };
+
+  // Linked ingredients are kept, just without a supplier
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!window.confirm(`¿Eliminar el proveedor "${supplier.name}"?`)) return;
+    try {
+      const batch = writeBatch(db);
+      batch.delete(doc(db, 'suppliers', supplier.id));
+      ingredients
+        .filter(i => i.supplierId === supplier.id)
+        .forEach(i => batch.update(doc(db, 'ingredients', i.id), { supplierId: '' }));
+      await batch.commit();
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al eliminar el proveedor.');
+    }
+  };
+
+  // --- Price list ---
+
+  const csvRows = parseCsv(listText);
+  const header = hasHeader ? csvRows[0] || [] : [];
+  const columnCount = Math.max(0, ...csvRows.map(row => row.length));
+  const money = (value: number, decimals = 0) => formatAmount(value, settings.profile.currency, decimals);
+  const priceRows = parsePriceList(hasHeader ? csvRows.slice(1) : csvRows, columns);
+  const rowMatches = priceRows.map((row, index) =>
+    matchOverrides[index] !== undefined ? matchOverrides[index] : matchPriceListRow(row, ingredients, listSupplierId)
+  );
+  const matchedCount = rowMatches.filter(id => id).length;
+
+  const handleListTextChange = (text: string) => {
+    setListText(text);
+    setColumns(guessPriceListColumns(parseCsv(text)[0] || []));
+    setMatchOverrides({});
+  };
+
+  const handleListFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleListTextChange(await file.text());
+  };
+
+  const previewPriceList = () => {
+    // A later row for the same ingredient replaces an earlier one
+    const byIngredient = new Map<string, PendingUpdate['links'][number] & PriceChange>();
+    priceRows.forEach((row, index) => {
+      const ing = ingredients.find(i => i.id === rowMatches[index]);
+      if (!ing) return;
+      byIngredient.set(ing.id, {
+        ingredientId: ing.id,
+        pricePerUnit: getListPricePerUnit(row, ing),
+        supplierId: listSupplierId,
+        supplierCode: row.code
+      });
+    });
+    const entries = Array.from(byIngredient.values());
+    setPending({
+      changes: entries.map(e => ({ ingredientId: e.ingredientId, pricePerUnit: e.pricePerUnit })),
+      links: linkIngredients && listSupplierId
+        ? entries.map(e => ({ ingredientId: e.ingredientId, supplierId: e.supplierId, supplierCode: e.supplierCode }))
+        : []
+    });
+  };
+
+  // --- Bulk increase ---
+
+  const categories = getIngredientCategories(ingredients);
+  const bulkChanges = getPercentChanges(ingredients, { supplierId: bulkSupplierId, category: bulkCategory }, parseFloat(percent) || 0);
+
+  const handleApply = async () => {
+    if (!pending) return;
+    setApplying(true);
+    setErrorMsg('');
+    try {
+      const updated = applyPriceChanges(ingredients, pending.changes);
+      for (let i = 0; i < pending.changes.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        pending.changes.slice(i, i + BATCH_LIMIT).forEach(change => {
+          const ing = updated.find(u => u.id === change.ingredientId)!;
+          const link = pending.links.find(l => l.ingredientId === change.ingredientId);
+          batch.update(doc(db, 'ingredients', ing.id), {
+            pricePerUnit: ing.pricePerUnit,
+            priceHistory: ing.priceHistory,
+            ...(link ? { supplierId: link.supplierId, ...(link.supplierCode ? { supplierCode: link.supplierCode } : {}) } : {})
+          });
+        });
+        await batch.commit();
+      }
+      setSuccessMsg(`${pending.changes.length} precio(s) actualizado(s).`);
+      setTimeout(() => setSuccessMsg(''), 3000);
+      setPending(null);
+      setListText('');
+      setPercent('');
+    } catch (err) {
+      console.error(err);
+      setErrorMsg('Error al actualizar los precios. Verifica tu conexión.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const inputClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50 placeholder-gray-400";
+  const selectClass = "w-full p-2.5 rounded-xl border border-rose-300 text-sm text-black bg-gray-50";
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      {errorMsg && (
+        <div className="bg-red-50 border border-red-200 text-red-600 p-3 rounded-lg text-sm">
+          {errorMsg}
+        </div>
+      )}
+
+      {/* Suppliers */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <h2 className="text-xl font-bold text-rose-500">Proveedores</h2>
+        <form onSubmit={handleAddSupplier} className="flex gap-2">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} flex-1`} placeholder="Nombre" />
+          <input type="text" value={contact} onChange={(e) => setContact(e.target.value)} className={`${inputClass} flex-1`} placeholder="Contacto (opcional)" />
+          <button type="submit" className="px-4 bg-rose-500 text-white rounded-xl font-bold hover:bg-rose-600 transition">Agregar</button>
+        </form>
+        {suppliers.length === 0 ? (
+          <p className="text-sm text-slate-400 italic">Todavía no cargaste proveedores.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {suppliers.map(supplier => (
+              <div key={supplier.id} className="flex items-center gap-2 py-2 text-sm">
+                <span className="flex-1 font-medium text-slate-700">
+                  {supplier.name}
+                  {supplier.contact && <span className="text-xs text-slate-400"> · {supplier.contact}</span>}
+                </span>
+                <span className="text-xs text-slate-400">{ingredients.filter(i => i.supplierId === supplier.id).length} ingrediente(s)</span>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteSupplier(supplier)}
+                  className="text-red-400 hover:text-red-600 px-2 font-bold"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Price list */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-rose-500">Lista de Precios</h2>
+          <p className="text-sm text-slate-500">Pega o sube la lista del proveedor (CSV o copiada de Excel) y revisa a qué ingrediente corresponde cada producto.</p>
+        </div>
+        <select value={listSupplierId} onChange={(e) => { setListSupplierId(e.target.value); setMatchOverrides({}); }} className={selectClass}>
+          <option value="">Sin proveedor</option>
+          {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <textarea
+          value={listText}
+          onChange={(e) => handleListTextChange(e.target.value)}
+          rows={5}
+          className={`${inputClass} font-mono`}
+          placeholder={'Código;Producto;Presentación;Precio\n1001;Harina de almendras;1;18500'}
+        />
+        <div className="flex items-center justify-between gap-2">
+          <input type="file" accept=".csv,.txt" onChange={handleListFile} className="text-sm text-slate-600" />
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-rose-500" />
+            Primera fila con títulos
+          </label>
+        </div>
+
+        {columnCount > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {COLUMN_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-slate-500 mb-1">{field.label}</label>
+                <select
+                  value={columns[field.key]}
+                  onChange={(e) => { setColumns({ ...columns, [field.key]: parseInt(e.target.value) }); setMatchOverrides({}); }}
+                  className={selectClass}
+                >
+                  <option value={-1}>—</option>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <option key={i} value={i}>{header[i] || `Columna ${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+        {columnCount > 0 && (
+          <p className="text-xs text-slate-400">La presentación va en la unidad del ingrediente (Kg, Lt, Un...). Si falta, se usa la del ingrediente.</p>
+        )}
+
+        {priceRows.length > 0 && (
+          <div className="max-h-80 overflow-y-auto divide-y divide-slate-100 text-sm">
+            {priceRows.map((row, index) => {
+              const ing = ingredients.find(i => i.id === rowMatches[index]);
+              return (
+                <div key={index} className="flex items-center gap-2 py-1.5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-slate-700 truncate">{row.code && <span className="text-xs text-slate-400">{row.code} · </span>}{row.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {money(row.price, 2)}{row.packageSize > 0 ? ` x ${row.packageSize}` : ''}
+                      {ing && ` → ${money(getListPricePerUnit(row, ing), 2)} / ${ing.unit} (antes ${money(ing.pricePerUnit, 2)})`}
+                    </p>
+                  </div>
+                  <select
+                    value={rowMatches[index]}
+                    onChange={(e) => setMatchOverrides({ ...matchOverrides, [index]: e.target.value })}
+                    className="w-40 p-2 rounded-lg border border-rose-300 text-xs text-black bg-gray-50"
+                  >
+                    <option value="">No importar</option>
+                    {ingredients.filter(i => !i.archived).map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {priceRows.length > 0 && (
+          <>
+            {listSupplierId && (
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={linkIngredients} onChange={(e) => setLinkIngredients(e.target.checked)} className="accent-rose-500" />
+                Vincular los ingredientes a este proveedor y guardar sus códigos
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={previewPriceList}
+              disabled={matchedCount === 0}
+              className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold hover:bg-slate-900 transition disabled:opacity-50"
+            >
+              Vista previa ({matchedCount} de {priceRows.length} productos)
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Bulk increase */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-rose-100 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-rose-500">Aumento Masivo</h2>
+          <p className="text-sm text-slate-500">Aplica un porcentaje a todos los ingredientes de un proveedor o categoría. Usa un valor negativo para bajas.</p>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <select value={bulkSupplierId} onChange={(e) => setBulkSupplierId(e.target.value)} className={selectClass}>
+            <option value="">Todos los proveedores</option>
+            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <select value={bulkCategory} onChange={(e) => setBulkCategory(e.target.value)} className={selectClass}>
+            <option value="">Todas las categorías</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input type="number" step="any" value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} placeholder="% (ej. 12)" />
+        </div>
+        <button
+          type="button"
+          onClick={() => setPending({ changes: bulkChanges, links: [] })}
+          disabled={!parseFloat(percent) || bulkChanges.length === 0}
+          className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold hover:bg-slate-900 transition disabled:opacity-50"
+        >
+          Vista previa ({bulkChanges.length} ingrediente(s))
+        </button>
+      </div>
+
+      {pending && (
+        <PriceChangePreview
+          changes={pending.changes}
+          ingredients={ingredients}
+          recipes={recipes}
+          settings={settings}
+          applying={applying}
+          onApply={handleApply}
+          onCancel={() => setPending(null)}
+        />
+      )}
+
+      {successMsg && (
+        <div className="fixed bottom-20 md:bottom-10 left-4 right-4 bg-green-500 text-white p-4 rounded-xl text-center shadow-lg z-50">
+          {successMsg}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,217 @@
+import { CostingSettings, Ingredient, PackagingItem, PriceEntry, Recipe, RecipeIngredient, UserSettings, getConversionFactor } from './types';
+import { DEFAULT_COSTING } from './settings';
+import { getBaseUnit } from './units';
+
+// Only this many price entries are kept on each ingredient document
+export const MAX_PRICE_HISTORY = 50;
+
+export const appendPriceEntry = (ingredient: Ingredient | undefined, entry: PriceEntry): PriceEntry[] =>
+  [...(ingredient?.priceHistory || []), entry].slice(-MAX_PRICE_HISTORY);
+
+// Price per unit used for costing, according to the user's costing method.
+// Ingredients without history fall back to their current price.
+export const getEffectivePricePerUnit = (ingredient: Ingredient, costing: CostingSettings = DEFAULT_COSTING): number => {
+  const history = ingredient.priceHistory || [];
+  const window = Math.max(1, costing.window);
+  if (costing.method === 'latest' || history.length === 0) return ingredient.pricePerUnit;
+
+  if (costing.method === 'highest') {
+    return Math.max(ingredient.pricePerUnit, ...history.slice(-window).map(e => e.pricePerUnit));
+  }
+
+  // Weighted by quantity over the last N purchases (or any price entries if
+  // nothing was bought yet); entries without quantity count once
+  const purchases = history.filter(e => e.source === 'purchase');
+  const recent = (purchases.length > 0 ? purchases : history).slice(-window);
+  const weights = recent.map(e => (e.quantity > 0 ? e.quantity : 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  return recent.reduce((sum, e, i) => sum + e.pricePerUnit * weights[i], 0) / totalWeight;
+};
+
+export interface RecipeCost {
+  totalCost: number;
+  costPerGram: number;
+  // Live cost of each row, in the same order as recipe.ingredients
+  rowCosts: number[];
+  // Live cost of each sub-recipe, in the same order as recipe.components
+  componentCosts: number[];
+  // True if the recipe (directly or through its sub-recipes) contains itself
+  hasCycle: boolean;
+  // Ingredients referenced (directly or through sub-recipes) that no longer exist
+  missingIngredientIds: string[];
+}
+
+// Fraction of what is bought that ends up in the recipe (waste capped at 95%)
+export const getUsableFraction = (ingredient: Ingredient): number =>
+  1 - Math.min(Math.max(ingredient.wastePercent || 0, 0), 95) / 100;
+
+// Cost of using `quantityUsed` (grams, ml or units) of an ingredient at its current price
+export const getIngredientCost = (ingredient: Ingredient, quantityUsed: number, costing?: CostingSettings): number => {
+  const factor = getConversionFactor(ingredient.unit);
+  return (getEffectivePricePerUnit(ingredient, costing) / factor) * quantityUsed / getUsableFraction(ingredient);
+};
+
+const calculateNestedCost = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], costing: CostingSettings | undefined, stack: string[]): RecipeCost => {
+  let hasCycle = false;
+  const missingIngredientIds: string[] = [];
+
+  const rowCosts = recipe.ingredients.map(item => {
+    const ing = ingredients.find(i => i.id === item.ingredientId);
+    if (!ing) {
+      missingIngredientIds.push(item.ingredientId);
+      return 0;
+    }
+    return getIngredientCost(ing, item.quantityUsed, costing);
+  });
+
+  const componentCosts = (recipe.components || []).map(component => {
+    const sub = recipes.find(r => r.id === component.recipeId);
+    if (!sub) return 0;
+    if (stack.includes(sub.id)) {
+      hasCycle = true;
+      return 0;
+    }
+    const subCost = calculateNestedCost(sub, ingredients, recipes, costing, [...stack, sub.id]);
+    hasCycle = hasCycle || subCost.hasCycle;
+    missingIngredientIds.push(...subCost.missingIngredientIds);
+    return subCost.costPerGram * component.quantityUsed;
+  });
+
+  const totalCost = [...rowCosts, ...componentCosts].reduce((sum, cost) => sum + cost, 0);
+  const costPerGram = recipe.totalYieldWeight > 0 ? totalCost / recipe.totalYieldWeight : 0;
+  return { totalCost, costPerGram, rowCosts, componentCosts, hasCycle, missingIngredientIds };
+};
+
+// Recomputes a recipe's cost from the current ingredient prices (and the
+// current cost of its sub-recipes) instead of the values frozen into the
+// document when it was last saved.
+export const calculateRecipeCost = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[] = [], costing?: CostingSettings): RecipeCost =>
+  calculateNestedCost(recipe, ingredients, recipes, costing, [recipe.id]);
+
+export interface CostBreakdown {
+  ingredients: number;
+  labour: number;
+  energy: number;
+  overhead: number;
+  total: number;
+}
+
+// Labour and oven minutes for one batch, including the share of each
+// sub-recipe's time that goes into it
+const getRecipeMinutes = (recipe: Recipe, recipes: Recipe[], stack: string[]): { labour: number; oven: number } =>
+  (recipe.components || []).reduce((minutes, component) => {
+    const sub = recipes.find(r => r.id === component.recipeId);
+    if (!sub || stack.includes(sub.id) || sub.totalYieldWeight <= 0) return minutes;
+    const subMinutes = getRecipeMinutes(sub, recipes, [...stack, sub.id]);
+    const share = component.quantityUsed / sub.totalYieldWeight;
+    return { labour: minutes.labour + subMinutes.labour * share, oven: minutes.oven + subMinutes.oven * share };
+  }, { labour: recipe.labourMinutes || 0, oven: recipe.ovenMinutes || 0 });
+
+// Full production cost of `quantity` grams/units of a recipe (the whole batch
+// by default): ingredients, labour, oven energy and a share of the monthly
+// fixed overhead proportional to the quantity produced
+export const calculateCostBreakdown = (
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  settings: UserSettings,
+  quantity: number = recipe.totalYieldWeight
+): CostBreakdown => {
+  const { overhead } = settings;
+  const share = recipe.totalYieldWeight > 0 ? quantity / recipe.totalYieldWeight : 0;
+  const minutes = getRecipeMinutes(recipe, recipes, [recipe.id]);
+
+  const ingredientCost = calculateRecipeCost(recipe, ingredients, recipes, settings.costing).totalCost * share;
+  const labour = (minutes.labour / 60) * overhead.labourRate * share;
+  const energy = (minutes.oven / 60) * overhead.energyRate * share;
+  const fixed = overhead.monthlyProduction > 0 ? (overhead.monthlyOverhead / overhead.monthlyProduction) * quantity : 0;
+
+  return {
+    ingredients: ingredientCost,
+    labour,
+    energy,
+    overhead: fixed,
+    total: ingredientCost + labour + energy + fixed
+  };
+};
+
+// Cost of the packaging chosen for a sale (id -> quantity)
+export const getPackagingCost = (packaging: PackagingItem[], selection: Record<string, number>): number =>
+  packaging.reduce((sum, item) => sum + item.cost * (selection[item.id] || 0), 0);
+
+// True if using `candidateId` as a sub-recipe of `recipeId` would make a recipe contain itself
+export const wouldCreateCycle = (recipeId: string, candidateId: string, recipes: Recipe[]): boolean => {
+  if (candidateId === recipeId) return true;
+  const visit = (id: string, seen: string[]): boolean => {
+    if (id === recipeId) return true;
+    if (seen.includes(id)) return false;
+    const recipe = recipes.find(r => r.id === id);
+    return (recipe?.components || []).some(c => visit(c.recipeId, [...seen, id]));
+  };
+  return visit(candidateId, []);
+};
+
+// Recipes that use `ingredientId` directly in their ingredient rows
+export const getRecipesUsingIngredient = (ingredientId: string, recipes: Recipe[]): Recipe[] =>
+  recipes.filter(r => r.ingredients.some(i => i.ingredientId === ingredientId));
+
+// Recipe rows with `fromId` swapped for `toId`. A row that lands on an
+// ingredient the recipe already uses is merged into it, and the unit as
+// written is dropped when it no longer applies (merged rows, or a replacement
+// measured in another base unit). Costs are left for getRefreshedCostFields.
+export const replaceIngredientRows = (
+  rows: RecipeIngredient[],
+  fromId: string,
+  toId: string,
+  ingredients: Ingredient[]
+): RecipeIngredient[] => {
+  const from = ingredients.find(i => i.id === fromId);
+  const to = ingredients.find(i => i.id === toId);
+  const sameBaseUnit = !!from && !!to && getBaseUnit(from.unit) === getBaseUnit(to.unit);
+  const result: RecipeIngredient[] = [];
+
+  rows.forEach(item => {
+    if (item.ingredientId !== fromId && item.ingredientId !== toId) {
+      result.push(item);
+      return;
+    }
+    const swapped = item.ingredientId === fromId;
+    const row = swapped && !sameBaseUnit
+      ? { ingredientId: toId, quantityUsed: item.quantityUsed, calculatedCost: item.calculatedCost }
+      : { ...item, ingredientId: toId };
+    const existing = result.findIndex(r => r.ingredientId === toId);
+    if (existing === -1) {
+      result.push(row);
+      return;
+    }
+    result[existing] = {
+      ingredientId: toId,
+      quantityUsed: result[existing].quantityUsed + row.quantityUsed,
+      calculatedCost: result[existing].calculatedCost + row.calculatedCost
+    };
+  });
+  return result;
+};
+
+// Recipes that use `recipeId` directly as a sub-recipe
+export const getRecipesUsingRecipe = (recipeId: string, recipes: Recipe[]): Recipe[] =>
+  recipes.filter(r => (r.components || []).some(c => c.recipeId === recipeId));
+
+// True when the saved cost per gram no longer matches the live one
+// (compared at the 4 decimals we display)
+export const hasCostChanged = (recipe: Recipe, live: RecipeCost): boolean =>
+  recipe.costPerGram.toFixed(4) !== live.costPerGram.toFixed(4);
+
+// Firestore fields to write so the saved recipe matches its live cost again
+export const getRefreshedCostFields = (recipe: Recipe, live: RecipeCost) => ({
+  ingredients: recipe.ingredients.map((item, index) => ({
+    ...item,
+    calculatedCost: live.rowCosts[index]
+  })),
+  components: (recipe.components || []).map((component, index) => ({
+    ...component,
+    calculatedCost: live.componentCosts[index]
+  })),
+  totalCost: live.totalCost,
+  costPerGram: live.costPerGram
+});
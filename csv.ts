@@ -0,0 +1,91 @@
+// CSV sheets meant to be opened and edited in Excel or Google Sheets
+
+const escapeCell = (value: string | number, delimiter: string): string => {
+  const text = typeof value === 'number' ? value.toString() : value;
+  return /["\n\r]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][], delimiter = ','): string =>
+  rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\n');
+
+// Spreadsheets set to Spanish save with ';', so the delimiter is taken from
+// whichever of ',' ';' or tab appears most in the header line
+const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+// Rows of cells with quotes resolved; blank lines are dropped
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+// Rows keyed by lowercased header, for sheets whose columns may come in any order
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, (row[i] || '').trim()])));
+};
+
+// Accepts both "1234.5" and the Spanish "1.234,5", ignoring currency symbols
+export const parseCsvNumber = (value: string): number => {
+  let text = value.replace(/[^\d.,-]/g, '');
+  if (text.includes(',') && text.includes('.')) {
+    text = text.lastIndexOf(',') > text.lastIndexOf('.')
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else {
+    text = text.replace(',', '.');
+  }
+  return parseFloat(text);
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Excel only detects UTF-8 (accents, ñ) when the file starts with a BOM
+export const downloadCsv = (rows: (string | number)[][], fileName: string) =>
+  downloadFile(`\uFEFF${toCsv(rows)}`, fileName, 'text/csv;charset=utf-8');
@@ -0,0 +1,29 @@
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local date as yyyy-mm-dd (toISOString would use UTC and can be off by a day)
+export const toISODate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const todayISO = (): string => toISODate(new Date());
+
+// Parses yyyy-mm-dd as a local date
+export const fromISODate = (iso: string): Date => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDaysISO = (days: number, from: string = todayISO()): string => {
+  const date = fromISODate(from);
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
+
+// Monday of the week containing `iso`
+export const startOfWeekISO = (iso: string): string => {
+  const date = fromISODate(iso);
+  const offset = (date.getDay() + 6) % 7;
+  return addDaysISO(-offset, iso);
+};
+
+export const formatDayLabel = (iso: string): string =>
+  fromISODate(iso).toLocaleDateString('es-AR', { weekday: 'short', day: 'numeric', month: 'short' });
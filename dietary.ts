@@ -0,0 +1,107 @@
+import { ALLERGEN_LABELS, Allergen, DIETARY_TAG_LABELS, DietarySettings, DietaryTag, Ingredient, Recipe } from './types';
+import { calculateRecipeNutrition, getNetCarbs } from './nutrition';
+import { estimateYield, getRawMass, getYieldGrams } from './yield';
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+
+// Tags the user sets on ingredients; 'keto' is calculated
+export const INGREDIENT_DIETARY_TAGS: DietaryTag[] = ['sugarFree', 'glutenFree', 'vegan'];
+
+export interface RecipeDietary {
+  allergens: Allergen[]; // Present in any ingredient or sub-recipe
+  tags: DietaryTag[]; // Only when every ingredient and sub-recipe qualifies
+  // An ingredient or sub-recipe is missing (deleted, or part of a cycle), so
+  // allergens may be left out and the recipe can't be called free of any
+  incomplete: boolean;
+}
+
+// An ingredient's own tags, minus the ones its allergens contradict
+const getIngredientTags = (ingredient: Ingredient): DietaryTag[] => {
+  const allergens = ingredient.allergens || [];
+  return (ingredient.dietaryTags || []).filter(tag => {
+    if (tag === 'glutenFree') return !allergens.includes('gluten');
+    if (tag === 'vegan') return !allergens.includes('eggs') && !allergens.includes('dairy');
+    return true;
+  });
+};
+
+const collectDietary = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], stack: string[]): RecipeDietary => {
+  const allergens = new Set<Allergen>();
+  let incomplete = false;
+  // A recipe with nothing in it can't vouch for any tag
+  let tags = recipe.ingredients.length + (recipe.components || []).length > 0 ? INGREDIENT_DIETARY_TAGS : [];
+
+  recipe.ingredients.forEach(item => {
+    const ing = ingredients.find(i => i.id === item.ingredientId);
+    if (!ing) {
+      tags = [];
+      incomplete = true;
+      return;
+    }
+    (ing.allergens || []).forEach(allergen => allergens.add(allergen));
+    const ingredientTags = getIngredientTags(ing);
+    tags = tags.filter(tag => ingredientTags.includes(tag));
+  });
+
+  (recipe.components || []).forEach(component => {
+    const sub = recipes.find(r => r.id === component.recipeId);
+    if (!sub || stack.includes(sub.id)) {
+      tags = [];
+      incomplete = true;
+      return;
+    }
+    const subDietary = collectDietary(sub, ingredients, recipes, [...stack, sub.id]);
+    subDietary.allergens.forEach(allergen => allergens.add(allergen));
+    incomplete = incomplete || subDietary.incomplete;
+    tags = tags.filter(tag => subDietary.tags.includes(tag));
+  });
+
+  return { allergens: ALLERGENS.filter(a => allergens.has(a)), tags, incomplete };
+};
+
+// Grams of finished product; recipes counted in units fall back to the raw
+// mass minus the cooking loss when every ingredient has a known weight
+const getProductGrams = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[]): number | null => {
+  const grams = getYieldGrams(recipe);
+  if (grams !== null) return grams;
+  const raw = getRawMass(recipe.ingredients, recipe.components || [], ingredients, recipes);
+  return raw.hasUnitIngredients ? null : estimateYield(raw.grams, recipe.moistureLossPercent || 0);
+};
+
+// Net carbs per 100 g of product, or null when nutrition data is incomplete
+export const getNetCarbsPer100g = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[]): number | null => {
+  const nutrition = calculateRecipeNutrition(recipe, ingredients, recipes);
+  const grams = getProductGrams(recipe, ingredients, recipes);
+  if (nutrition.missingIngredientIds.length > 0 || !grams || grams <= 0) return null;
+  return getNetCarbs(nutrition.total) / grams * 100;
+};
+
+export const getRecipeDietary = (
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  settings: DietarySettings
+): RecipeDietary => {
+  const dietary = collectDietary(recipe, ingredients, recipes, [recipe.id]);
+  const netCarbs = getNetCarbsPer100g(recipe, ingredients, recipes);
+  return {
+    allergens: dietary.allergens,
+    incomplete: dietary.incomplete,
+    tags: !dietary.incomplete && netCarbs !== null && netCarbs <= settings.ketoNetCarbLimit ? [...dietary.tags, 'keto'] : dietary.tags
+  };
+};
+
+export const formatAllergens = (allergens: Allergen[]): string =>
+  allergens.map(a => ALLERGEN_LABELS[a]).join(', ');
+
+export const formatDietaryTags = (tags: DietaryTag[]): string =>
+  tags.map(t => DIETARY_TAG_LABELS[t]).join(' · ');
+
+// Recipe list filter: '' for all, 'free:<allergen>' or 'tag:<tag>'. Recipes
+// with missing data never count as free of an allergen.
+export const matchesDietaryFilter = (dietary: RecipeDietary, filter: string): boolean => {
+  const [kind, value] = filter.split(':');
+  if (kind === 'free') return !dietary.incomplete && !dietary.allergens.includes(value as Allergen);
+  if (kind === 'tag') return dietary.tags.includes(value as DietaryTag);
+  return true;
+};
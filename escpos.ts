@@ -0,0 +1,252 @@
+import { BusinessProfile, PrinterConnection, PrinterSettings, PrinterWidth } from './types';
+import { TicketData } from './ticket';
+import { formatAmount, getContactLines, getSocialLines, loadLogo } from './pdf';
+import { downloadFile } from './csv';
+
+export const PRINTER_WIDTHS: { id: PrinterWidth; name: string }[] = [
+  { id: 58, name: '58 mm' },
+  { id: 80, name: '80 mm' }
+];
+
+export const PRINTER_CONNECTIONS: { id: PrinterConnection; name: string }[] = [
+  { id: 'serial', name: 'Puerto serie (Web Serial)' },
+  { id: 'usb', name: 'USB (WebUSB)' },
+  { id: 'file', name: 'Descargar archivo .bin' }
+];
+
+// Characters per line in font A and printable width in dots (203 dpi)
+const COLUMNS: Record<PrinterWidth, number> = { 58: 32, 80: 48 };
+const DOTS: Record<PrinterWidth, number> = { 58: 384, 80: 576 };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Code page PC850 covers the Spanish accents, ñ, ¡ and ¿
+const CODE_PAGE_PC850 = 2;
+const PC850: Record<string, number> = {
+  'á': 0xa0, 'é': 0x82, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ü': 0x81, 'ñ': 0xa4,
+  'Á': 0xb5, 'É': 0x90, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9, 'Ü': 0x9a, 'Ñ': 0xa5,
+  '¿': 0xa8, '¡': 0xad, '°': 0xf8, 'º': 0xa7, 'ª': 0xa6
+};
+
+const encodeText = (text: string): number[] =>
+  Array.from(text).map(char => {
+    if (char.charCodeAt(0) < 0x80) return char.charCodeAt(0);
+    if (PC850[char] !== undefined) return PC850[char];
+    // Fall back to the unaccented letter, or '?' when there is none
+    const base = char.normalize('NFD').charAt(0);
+    return base.charCodeAt(0) < 0x80 ? base.charCodeAt(0) : 0x3f;
+  });
+
+type Align = 'left' | 'center' | 'right';
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+// Accumulates ESC/POS commands; every method returns the builder so calls can be chained
+const createBuilder = () => {
+  const bytes: number[] = [];
+  const builder = {
+    raw: (...values: number[]) => {
+      bytes.push(...values);
+      return builder;
+    },
+    init: () => builder.raw(ESC, 0x40, ESC, 0x74, CODE_PAGE_PC850),
+    align: (align: Align) => builder.raw(ESC, 0x61, ALIGN_CODES[align]),
+    bold: (on: boolean) => builder.raw(ESC, 0x45, on ? 1 : 0),
+    // Double width and height
+    large: (on: boolean) => builder.raw(GS, 0x21, on ? 0x11 : 0),
+    line: (text = '') => builder.raw(...encodeText(text), LF),
+    feed: (lines: number) => builder.raw(ESC, 0x64, lines),
+    // Partial cut after feeding the paper past the cutter
+    cut: () => builder.raw(GS, 0x56, 0x42, 0),
+    image: (raster: Raster) => {
+      const widthBytes = raster.width / 8;
+      builder.raw(GS, 0x76, 0x30, 0, widthBytes & 0xff, widthBytes >> 8, raster.height & 0xff, raster.height >> 8);
+      for (let i = 0; i < raster.data.length; i++) bytes.push(raster.data[i]);
+      return builder.raw(LF);
+    },
+    qr: (data: string, moduleSize: number) => {
+      const payload = encodeText(data);
+      const length = payload.length + 3;
+      return builder
+        .raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0) // Model 2
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31) // Error correction M
+        .raw(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...payload)
+        .raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30)
+        .raw(LF);
+    },
+    build: () => new Uint8Array(bytes)
+  };
+  return builder;
+};
+
+interface Raster {
+  width: number; // Dots, multiple of 8
+  height: number;
+  data: Uint8Array; // One bit per dot, rows top to bottom, 1 = black
+}
+
+// Thresholds the image to black and white; transparent pixels print as paper
+const rasterizeImage = (img: HTMLImageElement, maxWidth: number): Raster => {
+  const width = Math.max(8, Math.floor(Math.min(maxWidth, img.width) / 8) * 8);
+  const height = Math.max(1, Math.round(img.height * (width / img.width)));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const data = new Uint8Array((width / 8) * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      if (luminance < 128) data[y * (width / 8) + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+  return { width, height, data };
+};
+
+// Left text and right-aligned amount on one line, truncating the text if needed
+const twoColumns = (left: string, right: string, columns: number) => {
+  const room = Math.max(1, columns - right.length - 1);
+  const text = left.length > room ? left.slice(0, room) : left;
+  return text + ' '.repeat(columns - text.length - right.length) + right;
+};
+
+const getInstagramUrl = (handle: string) =>
+  `https://www.instagram.com/${handle.trim().replace(/^@/, '')}`;
+
+// Same content and order as generateTicketPdf, as raw ESC/POS bytes
+export const renderEscPosTicket = async (
+  data: TicketData,
+  profile: BusinessProfile,
+  printer: PrinterSettings
+): Promise<Uint8Array> => {
+  const columns = COLUMNS[printer.width];
+  const money = (value: number) => formatAmount(value, profile.currency);
+  const divider = '-'.repeat(columns);
+  const out = createBuilder().init().align('center');
+
+  const logo = await loadLogo(profile);
+  if (logo) out.image(rasterizeImage(logo, Math.round(DOTS[printer.width] * 0.6)));
+
+  if (profile.name) out.bold(true).large(true).line(profile.name).large(false).bold(false);
+  getContactLines(profile).forEach(line => out.line(line));
+  out.line(divider).align('left');
+
+  data.lines.forEach(line => {
+    out.bold(true).line(twoColumns(line.name, money(line.price), columns)).bold(false);
+    out.line(line.detail.slice(0, columns));
+  });
+  out.line(divider);
+
+  if (data.discount > 0) {
+    out.line(twoColumns('Subtotal', money(data.subtotal), columns));
+    out.line(twoColumns('Descuento', `-${money(data.discount)}`, columns));
+  }
+
+  out.align('center').bold(true).large(true).line(money(data.total)).large(false).bold(false).line();
+
+  if (profile.footer) out.line(profile.footer);
+  getSocialLines(profile).forEach(line => out.line(line));
+  if (printer.qr && profile.instagram.trim()) {
+    out.line().qr(getInstagramUrl(profile.instagram), printer.width === 58 ? 5 : 6);
+  }
+
+  return out.feed(4).cut().build();
+};
+
+// Web Serial and WebUSB are not part of TypeScript's DOM library yet; these
+// cover only the parts used here.
+interface SerialPortLike {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface USBDeviceLike {
+  configuration: {
+    interfaces: {
+      interfaceNumber: number;
+      alternate: { endpoints: { endpointNumber: number; direction: 'in' | 'out' }[] };
+    }[];
+  } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(value: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface PrinterNavigator {
+  serial?: { requestPort(): Promise<SerialPortLike> };
+  usb?: { requestDevice(options: { filters: object[] }): Promise<USBDeviceLike> };
+}
+
+// Most serial thermal printers ship configured at 9600 baud
+const SERIAL_BAUD_RATE = 9600;
+
+export const isPrinterConnectionSupported = (connection: PrinterConnection): boolean => {
+  const nav = navigator as Navigator & PrinterNavigator;
+  if (connection === 'serial') return !!nav.serial;
+  if (connection === 'usb') return !!nav.usb;
+  return true;
+};
+
+const writeSerial = async (port: SerialPortLike, bytes: Uint8Array) => {
+  await port.open({ baudRate: SERIAL_BAUD_RATE });
+  try {
+    const writer = port.writable!.getWriter();
+    await writer.write(bytes);
+    writer.releaseLock();
+  } finally {
+    await port.close();
+  }
+};
+
+const writeUsb = async (device: USBDeviceLike, bytes: Uint8Array) => {
+  await device.open();
+  try {
+    if (!device.configuration) await device.selectConfiguration(1);
+    // First interface with an OUT endpoint is the printer's data channel
+    const target = device.configuration!.interfaces
+      .map(iface => ({ iface, endpoint: iface.alternate.endpoints.find(e => e.direction === 'out') }))
+      .find(candidate => candidate.endpoint);
+    if (!target) throw new Error('The USB device has no OUT endpoint');
+    await device.claimInterface(target.iface.interfaceNumber);
+    await device.transferOut(target.endpoint!.endpointNumber, bytes);
+  } finally {
+    await device.close();
+  }
+};
+
+export interface PrinterTarget {
+  print: (bytes: Uint8Array) => Promise<void>;
+}
+
+// Asks the user to pick the printer chosen in settings. Must be called
+// straight from the click, before any other await: browsers only show the
+// device picker during a user gesture.
+export const requestPrinter = async (connection: PrinterConnection, fileName: string): Promise<PrinterTarget> => {
+  if (!isPrinterConnectionSupported(connection)) {
+    throw new Error(`${connection} printing is not supported by this browser`);
+  }
+  const nav = navigator as Navigator & PrinterNavigator;
+  switch (connection) {
+    case 'serial': {
+      const port = await nav.serial!.requestPort();
+      return { print: bytes => writeSerial(port, bytes) };
+    }
+    case 'usb': {
+      const device = await nav.usb!.requestDevice({ filters: [] });
+      return { print: bytes => writeUsb(device, bytes) };
+    }
+    default:
+      return { print: async bytes => downloadFile(bytes, fileName, 'application/octet-stream') };
+  }
+};
@@ -0,0 +1,181 @@
+import jsPDF from 'jspdf';
+import { Ingredient, NutritionFacts, Recipe, UserSettings } from './types';
+import { NUTRIENT_FIELDS, calculateRecipeNutrition, emptyNutrition, formatNutrient, getNetCarbs, scaleNutrition } from './nutrition';
+import { formatAllergens, formatDietaryTags, getRecipeDietary } from './dietary';
+import { getComponentGrams, getYieldGrams } from './yield';
+import { toGrams } from './units';
+
+export type LabelSize = '50x30' | '100x60' | 'a4';
+
+export const LABEL_SIZES: { id: LabelSize; name: string }[] = [
+  { id: '50x30', name: '50 x 30 mm' },
+  { id: '100x60', name: '100 x 60 mm' },
+  { id: 'a4', name: 'Hoja A4 (8 etiquetas de 100 x 60 mm)' }
+];
+
+export const DEFAULT_SERVING_SIZE = 50;
+
+export interface LabelData {
+  name: string;
+  netWeight: number;
+  ingredients: string[]; // Descending by weight
+  allergens: string;
+  claims: string; // Dietary tags such as "Sin TACC · Vegano"
+  servingSize: number;
+  perServing: NutritionFacts;
+  per100: NutritionFacts;
+  producer: string; // Business name and address from the profile; empty to omit
+}
+
+// Why a label can't be printed for the recipe, or '' when it can. The label
+// is in grams, so recipes counted in units (or portions without a weight)
+// would print per-unit values as if they were per 100 g; and with a missing
+// ingredient the "Contiene" line could leave out an allergen.
+export const getLabelProblem = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], settings: UserSettings): string => {
+  if (getYieldGrams(recipe) === null) {
+    return 'La etiqueta necesita el peso del producto: usa rendimiento en peso, o en porciones indicando cuánto pesa cada una.';
+  }
+  if (getRecipeDietary(recipe, ingredients, recipes, settings.dietary).incomplete) {
+    return 'La receta tiene ingredientes o sub-recetas eliminados: no se pueden verificar los alérgenos. Edita la receta antes de generar la etiqueta.';
+  }
+  return '';
+};
+
+// `quantity` is in the recipe's yield unit (grams or portions); check
+// getLabelProblem first
+export const buildLabelData = (
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  quantity: number,
+  settings: UserSettings
+): LabelData => {
+  const { profile } = settings;
+  const nutrition = calculateRecipeNutrition(recipe, ingredients, recipes);
+  const perGram = nutrition.perGram || emptyNutrition();
+  const yieldGrams = getYieldGrams(recipe) || 0;
+  const netWeight = recipe.totalYieldWeight > 0 ? Math.round(yieldGrams / recipe.totalYieldWeight * quantity) : 0;
+  const dietary = getRecipeDietary(recipe, ingredients, recipes, settings.dietary);
+  const servingSize = recipe.servingSize || DEFAULT_SERVING_SIZE;
+
+  // Sub-recipes are listed by name alongside the raw ingredients, heaviest
+  // first; rows without a known weight (units without a unit weight) go last
+  const names = [
+    ...recipe.ingredients.map(item => {
+      const ing = ingredients.find(i => i.id === item.ingredientId);
+      return { name: ing?.name, grams: ing ? toGrams(item.quantityUsed, ing) : null };
+    }),
+    ...(recipe.components || []).map(component => {
+      const sub = recipes.find(r => r.id === component.recipeId);
+      return { name: sub?.name, grams: sub ? getComponentGrams(component.quantityUsed, sub) : null };
+    })
+  ]
+    .sort((a, b) => (b.grams ?? -1) - (a.grams ?? -1))
+    .map(item => item.name)
+    .filter((name): name is string => !!name);
+
+  return {
+    name: recipe.name,
+    netWeight,
+    ingredients: names,
+    allergens: [formatAllergens(dietary.allergens), recipe.allergens || ''].filter(part => part.trim()).join('. '),
+    claims: formatDietaryTags(dietary.tags),
+    servingSize,
+    perServing: scaleNutrition(perGram, servingSize),
+    per100: scaleNutrition(perGram, 100),
+    producer: [profile.name, profile.address].filter(part => part.trim()).join(' - ')
+  };
+};
+
+// Draws one label laid out for 100x60 mm, scaled to fit `width` mm wide
+const drawLabel = (doc: jsPDF, data: LabelData, x: number, y: number, width: number) => {
+  const s = width / 100;
+  const height = 60 * s;
+  const font = (size: number, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFontSize(size * s);
+    doc.setFont("helvetica", style);
+  };
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.3 * s);
+  doc.rect(x, y, width, height, 'S');
+
+  // Left column: name, weight, ingredients, allergens, dietary claims
+  const left = x + 3 * s;
+  const colWidth = 46 * s;
+  font(11, 'bold');
+  doc.text(doc.splitTextToSize(data.name, colWidth)[0], left, y + 7 * s);
+  font(7);
+  doc.text(`Peso neto: ${data.netWeight} g`, left, y + 12 * s);
+
+  font(5.5);
+  const ingredientLines = doc.splitTextToSize(`Ingredientes: ${data.ingredients.join(', ')}.`, colWidth);
+  doc.text(ingredientLines, left, y + 17 * s);
+
+  let textY = y + 17 * s + ingredientLines.length * 2.4 * s + 1.5 * s;
+  if (data.allergens) {
+    font(5.5, 'bold');
+    const allergenLines = doc.splitTextToSize(`Contiene: ${data.allergens}`, colWidth);
+    doc.text(allergenLines, left, textY);
+    textY += allergenLines.length * 2.4 * s + 1.5 * s;
+  }
+
+  if (data.claims) {
+    font(6, 'bold');
+    doc.text(doc.splitTextToSize(data.claims, colWidth)[0], left, textY);
+  }
+
+  if (data.producer) {
+    font(5);
+    doc.text(doc.splitTextToSize(`Elaborado por: ${data.producer}`, colWidth)[0], left, y + height - 3 * s);
+  }
+
+  // Right column: nutrition table
+  const tableX = x + 52 * s;
+  const tableRight = x + width - 3 * s;
+  font(6, 'bold');
+  doc.text("Información nutricional", tableX, y + 7 * s);
+  font(5, 'bold');
+  doc.text(`Porción ${data.servingSize} g`, tableX + 30 * s, y + 11 * s, { align: "right" });
+  doc.text("100 g", tableRight, y + 11 * s, { align: "right" });
+  doc.line(tableX, y + 12.5 * s, tableRight, y + 12.5 * s);
+
+  font(5);
+  let rowY = y + 16 * s;
+  NUTRIENT_FIELDS.forEach(field => {
+    doc.text(`${field.label} (${field.unit})`, tableX, rowY);
+    doc.text(formatNutrient(data.perServing[field.key]), tableX + 30 * s, rowY, { align: "right" });
+    doc.text(formatNutrient(data.per100[field.key]), tableRight, rowY, { align: "right" });
+    rowY += 3.6 * s;
+  });
+
+  doc.line(tableX, rowY - 2.2 * s, tableRight, rowY - 2.2 * s);
+  font(5.5, 'bold');
+  rowY += 0.8 * s;
+  doc.text("Carbs netos (g)", tableX, rowY);
+  doc.text(formatNutrient(getNetCarbs(data.perServing)), tableX + 30 * s, rowY, { align: "right" });
+  doc.text(formatNutrient(getNetCarbs(data.per100)), tableRight, rowY, { align: "right" });
+};
+
+export const generateLabelPdf = (data: LabelData, size: LabelSize) => {
+  const fileName = `${data.name.replace(/\s+/g, '_')}_etiqueta.pdf`;
+
+  if (size === 'a4') {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    // 2 columns x 4 rows of 100x60 labels, centered on the sheet
+    const marginX = (210 - 2 * 100) / 2;
+    const marginY = (297 - 4 * 60 - 3 * 5) / 2;
+    for (let row = 0; row < 4; row++) {
+      for (let col = 0; col < 2; col++) {
+        drawLabel(doc, data, marginX + col * 100, marginY + row * 65, 100);
+      }
+    }
+    doc.save(fileName);
+    return;
+  }
+
+  const width = size === '50x30' ? 50 : 100;
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: [width, width * 0.6] });
+  drawLabel(doc, data, 0, 0, width);
+  doc.save(fileName);
+};
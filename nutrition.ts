@@ -0,0 +1,82 @@
+import { Ingredient, NutritionFacts, Recipe, Unit } from './types';
+import { getYieldGrams } from './yield';
+
+export const NUTRIENT_FIELDS: { key: keyof NutritionFacts; label: string; unit: string }[] = [
+  { key: 'kcal', label: 'Calorías', unit: 'kcal' },
+  { key: 'fat', label: 'Grasas', unit: 'g' },
+  { key: 'protein', label: 'Proteínas', unit: 'g' },
+  { key: 'carbs', label: 'Carbohidratos', unit: 'g' },
+  { key: 'fiber', label: 'Fibra', unit: 'g' },
+  { key: 'sugarAlcohols', label: 'Polialcoholes', unit: 'g' }
+];
+
+export const emptyNutrition = (): NutritionFacts => ({
+  kcal: 0, fat: 0, protein: 0, carbs: 0, fiber: 0, sugarAlcohols: 0
+});
+
+export const scaleNutrition = (facts: NutritionFacts, factor: number): NutritionFacts => ({
+  kcal: facts.kcal * factor,
+  fat: facts.fat * factor,
+  protein: facts.protein * factor,
+  carbs: facts.carbs * factor,
+  fiber: facts.fiber * factor,
+  sugarAlcohols: facts.sugarAlcohols * factor
+});
+
+export const addNutrition = (a: NutritionFacts, b: NutritionFacts): NutritionFacts => ({
+  kcal: a.kcal + b.kcal,
+  fat: a.fat + b.fat,
+  protein: a.protein + b.protein,
+  carbs: a.carbs + b.carbs,
+  fiber: a.fiber + b.fiber,
+  sugarAlcohols: a.sugarAlcohols + b.sugarAlcohols
+});
+
+// Keto net carbs: fiber and sugar alcohols don't count
+export const getNetCarbs = (facts: NutritionFacts): number =>
+  Math.max(0, facts.carbs - facts.fiber - facts.sugarAlcohols);
+
+// Nutrition for `quantityUsed` grams/ml (or units if the ingredient is sold by unit)
+export const getIngredientNutrition = (ingredient: Ingredient, quantityUsed: number): NutritionFacts => {
+  if (!ingredient.nutrition) return emptyNutrition();
+  const factor = ingredient.unit === Unit.UN ? quantityUsed : quantityUsed / 100;
+  return scaleNutrition(ingredient.nutrition, factor);
+};
+
+export interface RecipeNutrition {
+  total: NutritionFacts;
+  perYieldUnit: NutritionFacts; // Per gram, unit or portion of the yield, to scale quantities sold or used
+  perGram: NutritionFacts | null; // Null when the yield is counted in units and has no weight
+  // Ingredients in the recipe with no nutrition data loaded
+  missingIngredientIds: string[];
+}
+
+const calculateNestedNutrition = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], stack: string[]): RecipeNutrition => {
+  let total = emptyNutrition();
+  const missingIngredientIds: string[] = [];
+  recipe.ingredients.forEach(item => {
+    const ing = ingredients.find(i => i.id === item.ingredientId);
+    if (!ing || !ing.nutrition) {
+      missingIngredientIds.push(item.ingredientId);
+      return;
+    }
+    total = addNutrition(total, getIngredientNutrition(ing, item.quantityUsed));
+  });
+  (recipe.components || []).forEach(component => {
+    const sub = recipes.find(r => r.id === component.recipeId);
+    if (!sub || stack.includes(sub.id)) return;
+    const subNutrition = calculateNestedNutrition(sub, ingredients, recipes, [...stack, sub.id]);
+    total = addNutrition(total, scaleNutrition(subNutrition.perYieldUnit, component.quantityUsed));
+    missingIngredientIds.push(...subNutrition.missingIngredientIds);
+  });
+  const perYieldUnit = recipe.totalYieldWeight > 0 ? scaleNutrition(total, 1 / recipe.totalYieldWeight) : emptyNutrition();
+  const grams = getYieldGrams(recipe);
+  const perGram = grams === null ? null : grams > 0 ? scaleNutrition(total, 1 / grams) : emptyNutrition();
+  return { total, perYieldUnit, perGram, missingIngredientIds };
+};
+
+export const calculateRecipeNutrition = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[] = []): RecipeNutrition =>
+  calculateNestedNutrition(recipe, ingredients, recipes, [recipe.id]);
+
+export const formatNutrient = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 1 });
@@ -0,0 +1,58 @@
+import { BusinessProfile } from './types';
+
+// Loads the logo uploaded in the business profile; resolves to null if there
+// is none or it can't be decoded
+export const loadLogo = (profile: BusinessProfile): Promise<HTMLImageElement | null> =>
+  new Promise(resolve => {
+    if (!profile.logo) {
+      resolve(null);
+      return;
+    }
+    const img = new Image();
+    img.src = profile.logo;
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+  });
+
+// Logos are stored inside the settings document, so they are shrunk to a
+// small PNG to stay well under Firestore's document size limit
+export const readLogoFile = (file: File, maxSize = 300): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const img = new Image();
+      img.onerror = () => reject(new Error('Invalid image'));
+      img.onload = () => {
+        const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      img.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+// Size of the logo scaled to fit the box without distorting it
+export const fitLogo = (logo: HTMLImageElement, maxWidth: number, maxHeight: number): { width: number; height: number } => {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height);
+  return { width: logo.width * scale, height: logo.height * scale };
+};
+
+// Whole amounts by default; per-unit costs and prices pass their decimals
+export const formatAmount = (value: number, currency: string, decimals = 0) =>
+  `${currency}${value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}`;
+
+// Address, phone and tax ID, skipping the ones left empty
+export const getContactLines = (profile: BusinessProfile): string[] =>
+  [
+    profile.address,
+    profile.phone ? `Tel: ${profile.phone}` : '',
+    profile.taxId ? `CUIT: ${profile.taxId}` : ''
+  ].filter(line => line.trim());
+
+export const getSocialLines = (profile: BusinessProfile): string[] =>
+  [profile.instagram, profile.facebook, profile.website].filter(line => line.trim());
@@ -0,0 +1,42 @@
+import { PricingRule, Recipe, SellableFormat, UserSettings } from './types';
+
+export const resolvePricingRule = (recipe: Recipe | undefined, settings: UserSettings): PricingRule =>
+  recipe?.pricing || settings.pricing;
+
+// Selling price for `quantity` grams (or units) that cost `cost` to produce.
+// Every price shown or printed in the app goes through here.
+export const calculatePrice = (cost: number, quantity: number, rule: PricingRule): number => {
+  let price: number;
+  switch (rule.method) {
+    case 'margin': {
+      const margin = Math.min(Math.max(rule.marginPercent, 0), 99) / 100;
+      price = cost / (1 - margin);
+      break;
+    }
+    case 'fixed':
+      price = rule.fixedPer === 'kg' ? (rule.fixedPrice / 1000) * quantity : rule.fixedPrice * quantity;
+      break;
+    default:
+      price = cost * rule.markup;
+  }
+
+  if (price <= 0) return 0;
+  price = Math.max(price, rule.minPrice);
+  if (rule.roundTo > 0) {
+    price = Math.ceil(price / rule.roundTo) * rule.roundTo;
+  }
+  return price;
+};
+
+// Price of `count` of a sellable format: its own price when set, otherwise
+// the pricing rule applied to one format costing `unitCost`
+export const getFormatPrice = (format: SellableFormat, unitCost: number, count: number, rule: PricingRule): number =>
+  (format.price > 0 ? format.price : calculatePrice(unitCost, format.quantity, rule)) * count;
+
+export const getPricingLabel = (rule: PricingRule): string => {
+  switch (rule.method) {
+    case 'margin': return `Margen ${rule.marginPercent}%`;
+    case 'fixed': return `$${rule.fixedPrice.toLocaleString()} / ${rule.fixedPer === 'kg' ? 'kg' : 'un'}`;
+    default: return `x${rule.markup}`;
+  }
+};
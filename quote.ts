@@ -0,0 +1,149 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile, Quote, QuoteExtra, QuoteItem, QuoteStatus, Recipe } from './types';
+import { fitLogo, formatAmount, getContactLines, getSocialLines, loadLogo } from './pdf';
+import { todayISO } from './dates';
+import { getYieldUnitLabel } from './yield';
+
+export interface QuoteTotals {
+  itemsTotal: number;
+  extrasTotal: number;
+  labourTotal: number;
+  total: number;
+}
+
+export const getQuoteTotals = (items: QuoteItem[], extras: QuoteExtra[], labourHours: number, labourRate: number): QuoteTotals => {
+  const itemsTotal = items.reduce((sum, item) => sum + item.price, 0);
+  const extrasTotal = extras.reduce((sum, extra) => sum + extra.amount, 0);
+  const labourTotal = labourHours * labourRate;
+  return { itemsTotal, extrasTotal, labourTotal, total: itemsTotal + extrasTotal + labourTotal };
+};
+
+// Drafts and sent quotes past their validity date show as expired
+export const getQuoteStatus = (quote: Quote): QuoteStatus =>
+  (quote.status === 'draft' || quote.status === 'sent') && quote.validUntil < todayISO()
+    ? 'expired'
+    : quote.status;
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const BOTTOM_LIMIT = PAGE_HEIGHT - 30;
+
+export const generateQuotePdf = async (quote: Quote, profile: BusinessProfile, recipes: Recipe[]) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const right = PAGE_WIDTH - MARGIN;
+  const logo = await loadLogo(profile);
+  const money = (value: number) => formatAmount(value, profile.currency);
+
+  // Header
+  if (logo) {
+    // Fitted in a 30x30mm box, keeping its proportions
+    const { width, height } = fitLogo(logo, 30, 30);
+    doc.addImage(logo, 'PNG', MARGIN + (30 - width) / 2, 12 + (30 - height) / 2, width, height);
+  }
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text(profile.name, right, 22, { align: "right" });
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "normal");
+  doc.text("Presupuesto", right, 30, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Fecha: ${new Date(quote.createdAt).toLocaleDateString()}`, right, 37, { align: "right" });
+  doc.text(`Válido hasta: ${quote.validUntil}`, right, 42, { align: "right" });
+
+  // Address, phone and tax ID under the logo
+  const contactLines = getContactLines(profile);
+  doc.setFontSize(9);
+  contactLines.forEach((line, index) => {
+    doc.text(line, MARGIN, 48 + index * 4.5);
+  });
+  const customerY = Math.max(55, 48 + contactLines.length * 4.5 + 4);
+
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Cliente: ${quote.customer}`, MARGIN, customerY);
+  doc.setDrawColor(200);
+  doc.line(MARGIN, customerY + 5, right, customerY + 5);
+
+  let y = customerY + 15;
+  // Starts a new page when the next block wouldn't fit
+  const ensureSpace = (needed: number) => {
+    if (y + needed > BOTTOM_LIMIT) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(14);
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, MARGIN, y);
+    y += 8;
+  };
+
+  const row = (label: string, detail: string, amount: number) => {
+    ensureSpace(8);
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "normal");
+    doc.text(doc.splitTextToSize(label, 95)[0], MARGIN, y);
+    doc.text(detail, 135, y, { align: "right" });
+    doc.text(money(amount), right, y, { align: "right" });
+    y += 7;
+  };
+
+  sectionTitle("Preparaciones");
+  quote.items.forEach(item => {
+    const unit = getYieldUnitLabel(recipes.find(r => r.id === item.recipeId));
+    row(item.recipeName, `${item.targetWeight} ${unit}`, item.price);
+  });
+
+  if (quote.extras.length > 0) {
+    y += 4;
+    sectionTitle("Adicionales");
+    quote.extras.forEach(extra => row(extra.description, '', extra.amount));
+  }
+
+  if (quote.labourHours > 0) {
+    y += 4;
+    sectionTitle("Mano de obra");
+    row("Decoración y armado", `${quote.labourHours} h`, quote.labourHours * quote.labourRate);
+  }
+
+  // Total
+  ensureSpace(20);
+  y += 4;
+  doc.setDrawColor(200);
+  doc.line(MARGIN, y, right, y);
+  y += 10;
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("Total", MARGIN, y);
+  doc.text(money(quote.total), right, y, { align: "right" });
+  y += 12;
+
+  if (quote.notes) {
+    sectionTitle("Observaciones");
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.splitTextToSize(quote.notes, PAGE_WIDTH - 2 * MARGIN).forEach((line: string) => {
+      ensureSpace(6);
+      doc.text(line, MARGIN, y);
+      y += 5;
+    });
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(120);
+    doc.text(getSocialLines(profile).join('  ·  '), MARGIN, PAGE_HEIGHT - 12);
+    doc.text(`Página ${page} de ${pageCount}`, right, PAGE_HEIGHT - 12, { align: "right" });
+    doc.setTextColor(0);
+  }
+
+  doc.save(`presupuesto_${quote.customer.replace(/\s+/g, '_')}.pdf`);
+};
@@ -0,0 +1,197 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile, Ingredient, Recipe, Sale, UserSettings } from './types';
+import { calculateCostBreakdown, calculateRecipeCost, getIngredientCost } from './costing';
+import { calculatePrice, resolvePricingRule } from './pricing';
+import { fromISODate, startOfWeekISO, todayISO } from './dates';
+import { getYieldGrams } from './yield';
+
+export interface CostRankingRow {
+  recipe: Recipe;
+  cost: number; // Ingredient cost per kg, or per unit when the yield has no weight
+  per: 'kg' | 'un';
+}
+
+// Most expensive first; recipes counted in units can't be compared by weight
+// so they go after the ones with a known weight
+export const getCostRanking = (recipes: Recipe[], ingredients: Ingredient[], settings: UserSettings): CostRankingRow[] =>
+  recipes
+    .filter(recipe => recipe.totalYieldWeight > 0)
+    .map(recipe => {
+      const total = calculateRecipeCost(recipe, ingredients, recipes, settings.costing).totalCost;
+      const grams = getYieldGrams(recipe);
+      return grams
+        ? { recipe, cost: (total / grams) * 1000, per: 'kg' as const }
+        : { recipe, cost: total / recipe.totalYieldWeight, per: 'un' as const };
+    })
+    .sort((a, b) => (a.per === b.per ? b.cost - a.cost : a.per === 'kg' ? -1 : 1));
+
+export interface RecipeMarginRow {
+  recipe: Recipe;
+  cost: number; // Full production cost of one batch
+  price: number; // Suggested price of one batch with the current pricing rule
+  margin: number;
+  marginPercent: number; // Share of the price, 0 when there's no price
+}
+
+export const getRecipeMargins = (recipes: Recipe[], ingredients: Ingredient[], settings: UserSettings): RecipeMarginRow[] =>
+  recipes
+    .filter(recipe => recipe.totalYieldWeight > 0)
+    .map(recipe => {
+      const cost = calculateCostBreakdown(recipe, ingredients, recipes, settings).total;
+      const price = calculatePrice(cost, recipe.totalYieldWeight, resolvePricingRule(recipe, settings));
+      const margin = price - cost;
+      return { recipe, cost, price, margin, marginPercent: price > 0 ? (margin / price) * 100 : 0 };
+    })
+    .sort((a, b) => a.marginPercent - b.marginPercent);
+
+export interface IngredientContributionRow {
+  ingredient: Ingredient;
+  cost: number; // Sum over one batch of every recipe that uses it
+  share: number; // % of the ingredient cost of all recipes
+  recipeCount: number;
+}
+
+// Only direct rows are counted: a sub-recipe's ingredients are already
+// counted in the sub-recipe itself
+export const getIngredientContributions = (
+  recipes: Recipe[],
+  ingredients: Ingredient[],
+  settings: UserSettings
+): IngredientContributionRow[] => {
+  const totals = new Map<string, { cost: number; recipeIds: Set<string> }>();
+  recipes.forEach(recipe => {
+    recipe.ingredients.forEach(item => {
+      const ing = ingredients.find(i => i.id === item.ingredientId);
+      if (!ing) return;
+      const entry = totals.get(ing.id) || { cost: 0, recipeIds: new Set<string>() };
+      entry.cost += getIngredientCost(ing, item.quantityUsed, settings.costing);
+      entry.recipeIds.add(recipe.id);
+      totals.set(ing.id, entry);
+    });
+  });
+
+  const grandTotal = Array.from(totals.values()).reduce((sum, entry) => sum + entry.cost, 0);
+  return Array.from(totals.entries())
+    .map(([id, entry]) => ({
+      ingredient: ingredients.find(i => i.id === id)!,
+      cost: entry.cost,
+      share: grandTotal > 0 ? (entry.cost / grandTotal) * 100 : 0,
+      recipeCount: entry.recipeIds.size
+    }))
+    .sort((a, b) => b.cost - a.cost);
+};
+
+export type SalesPeriod = 'day' | 'week' | 'month';
+
+export const SALES_PERIOD_LABELS: Record<SalesPeriod, string> = {
+  day: 'Día',
+  week: 'Semana',
+  month: 'Mes'
+};
+
+export interface SalesPeriodRow {
+  start: string; // yyyy-mm-dd of the first day of the period
+  label: string;
+  count: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+const getPeriodStart = (date: string, period: SalesPeriod): string => {
+  switch (period) {
+    case 'week': return startOfWeekISO(date);
+    case 'month': return `${date.slice(0, 7)}-01`;
+    default: return date;
+  }
+};
+
+const getPeriodLabel = (start: string, period: SalesPeriod): string => {
+  const date = fromISODate(start);
+  switch (period) {
+    case 'week': return `Sem. ${date.toLocaleDateString('es-AR', { day: 'numeric', month: 'short' })}`;
+    case 'month': return date.toLocaleDateString('es-AR', { month: 'short', year: 'numeric' });
+    default: return date.toLocaleDateString('es-AR', { day: 'numeric', month: 'short' });
+  }
+};
+
+// Oldest first, voided sales left out. Periods without sales are skipped.
+export const getSalesByPeriod = (sales: Sale[], period: SalesPeriod): SalesPeriodRow[] => {
+  const rows = new Map<string, SalesPeriodRow>();
+  sales
+    .filter(sale => !sale.voided)
+    .forEach(sale => {
+      const start = getPeriodStart(sale.date, period);
+      const row = rows.get(start) || { start, label: getPeriodLabel(start, period), count: 0, revenue: 0, cost: 0, profit: 0 };
+      row.count += 1;
+      row.revenue += sale.total;
+      row.cost += sale.totalCost;
+      row.profit = row.revenue - row.cost;
+      rows.set(start, row);
+    });
+  return Array.from(rows.values()).sort((a, b) => a.start.localeCompare(b.start));
+};
+
+export interface ReportTable {
+  title: string;
+  fileName: string; // Without extension
+  header: string[];
+  rows: (string | number)[][];
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const FIRST_COLUMN_WIDTH = 60;
+
+// Plain table: the first column on the left, every other column right-aligned
+// and spread evenly over the rest of the page
+export const generateReportPdf = (table: ReportTable, profile: BusinessProfile) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const right = PAGE_WIDTH - MARGIN;
+  const step = (right - MARGIN - FIRST_COLUMN_WIDTH) / Math.max(table.header.length - 1, 1);
+  const columnX = (index: number) => MARGIN + FIRST_COLUMN_WIDTH + step * index;
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(table.title, MARGIN, 25);
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Fecha: ${todayISO()}`, right, 25, { align: "right" });
+  if (profile.name) doc.text(profile.name, right, 20, { align: "right" });
+
+  const drawRow = (cells: (string | number)[]) => {
+    cells.forEach((cell, index) => {
+      const text = typeof cell === 'number' ? cell.toLocaleString('es-AR', { maximumFractionDigits: 2 }) : cell;
+      if (index === 0) {
+        doc.text(doc.splitTextToSize(text, FIRST_COLUMN_WIDTH - 2)[0], MARGIN, y);
+      } else {
+        doc.text(text, columnX(index), y, { align: "right" });
+      }
+    });
+  };
+
+  const header = () => {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "bold");
+    drawRow(table.header);
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y + 2, right, y + 2);
+    y += 8;
+    doc.setFont("helvetica", "normal");
+  };
+
+  let y = 38;
+  header();
+  table.rows.forEach(row => {
+    if (y > PAGE_HEIGHT - 20) {
+      doc.addPage();
+      y = MARGIN + 5;
+      header();
+    }
+    drawRow(row);
+    y += 7;
+  });
+
+  doc.save(`${table.fileName}_${todayISO()}.pdf`);
+};
@@ -0,0 +1,141 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile, CostingSettings, Ingredient, Recipe, RecipeIngredient } from './types';
+import { calculateRecipeCost } from './costing';
+import { todayISO } from './dates';
+import { getBaseUnit, getRecipeUnitLabel } from './units';
+import { getYieldUnitLabel } from './yield';
+
+export type ScaleMode = 'multiplier' | 'yield';
+
+// Multiplier that turns the saved recipe into the requested batch
+export const getScaleFactor = (recipe: Recipe, mode: ScaleMode, value: number): number => {
+  if (isNaN(value) || value <= 0) return 0;
+  if (mode === 'multiplier') return value;
+  return recipe.totalYieldWeight > 0 ? value / recipe.totalYieldWeight : 0;
+};
+
+// Copy of the recipe with every quantity multiplied; costs are recalculated
+// from current prices so the copy can be saved as-is
+export const scaleRecipe = (
+  recipe: Recipe,
+  factor: number,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  costing: CostingSettings
+): Recipe => {
+  const scaled: Recipe = {
+    ...recipe,
+    ingredients: recipe.ingredients.map(item => ({
+      ...item,
+      quantityUsed: item.quantityUsed * factor,
+      ...(item.entryQuantity !== undefined ? { entryQuantity: item.entryQuantity * factor } : {})
+    })),
+    components: (recipe.components || []).map(component => ({ ...component, quantityUsed: component.quantityUsed * factor })),
+    totalYieldWeight: recipe.totalYieldWeight * factor
+  };
+
+  const cost = calculateRecipeCost(scaled, ingredients, recipes, costing);
+  return {
+    ...scaled,
+    ingredients: scaled.ingredients.map((item, index) => ({ ...item, calculatedCost: cost.rowCosts[index] })),
+    components: scaled.components!.map((component, index) => ({ ...component, calculatedCost: cost.componentCosts[index] })),
+    totalCost: cost.totalCost,
+    costPerGram: cost.costPerGram
+  };
+};
+
+export const formatScaledQuantity = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: value < 10 ? 2 : 0 });
+
+// Row quantity as written in the recipe, with the base quantity when it was a kitchen unit
+export const describeIngredientQuantity = (item: RecipeIngredient, ingredient?: Ingredient): string => {
+  if (!ingredient) return formatScaledQuantity(item.quantityUsed);
+  const base = `${formatScaledQuantity(item.quantityUsed)} ${getRecipeUnitLabel(getBaseUnit(ingredient.unit))}`;
+  return item.entryUnit && item.entryQuantity !== undefined
+    ? `${formatScaledQuantity(item.entryQuantity)} ${getRecipeUnitLabel(item.entryUnit)} (${base})`
+    : base;
+};
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+
+// Kitchen sheet: scaled quantities with a box to tick each one off
+export const generateProductionSheetPdf = (
+  scaled: Recipe,
+  factor: number,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  profile: BusinessProfile
+) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const right = PAGE_WIDTH - MARGIN;
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(doc.splitTextToSize(scaled.name, 120)[0], MARGIN, 25);
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text("Hoja de producción", right, 20, { align: "right" });
+  doc.text(`Fecha: ${todayISO()}`, right, 25, { align: "right" });
+  if (profile.name) doc.text(profile.name, right, 15, { align: "right" });
+
+  doc.setFontSize(12);
+  doc.text(`Escala: x${formatScaledQuantity(factor)}`, MARGIN, 35);
+  doc.text(`Rendimiento: ${formatScaledQuantity(scaled.totalYieldWeight)} ${getYieldUnitLabel(scaled)}`, 80, 35);
+  doc.setDrawColor(200);
+  doc.line(MARGIN, 40, right, 40);
+
+  let y = 50;
+  const ensureSpace = () => {
+    if (y > PAGE_HEIGHT - 25) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+  };
+
+  const row = (name: string, quantity: string) => {
+    ensureSpace();
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "normal");
+    doc.rect(MARGIN, y - 4, 4, 4);
+    doc.text(doc.splitTextToSize(name, 110)[0], MARGIN + 8, y);
+    doc.setFont("helvetica", "bold");
+    doc.text(quantity, right, y, { align: "right" });
+    y += 9;
+  };
+
+  const section = (title: string) => {
+    ensureSpace();
+    doc.setFontSize(13);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, MARGIN, y);
+    y += 8;
+  };
+
+  section("Ingredientes");
+  scaled.ingredients.forEach(item => {
+    const ing = ingredients.find(i => i.id === item.ingredientId);
+    row(ing ? ing.name : 'Ingrediente eliminado', describeIngredientQuantity(item, ing));
+  });
+
+  if (scaled.components && scaled.components.length > 0) {
+    y += 4;
+    section("Sub-recetas");
+    scaled.components.forEach(component => {
+      const sub = recipes.find(r => r.id === component.recipeId);
+      row(sub ? sub.name : 'Sub-receta eliminada', `${formatScaledQuantity(component.quantityUsed)} gr/un`);
+    });
+  }
+
+  // Room for handwritten notes
+  y += 6;
+  section("Notas");
+  doc.setDrawColor(220);
+  for (let i = 0; i < 5 && y < PAGE_HEIGHT - 20; i++) {
+    doc.line(MARGIN, y, right, y);
+    y += 9;
+  }
+
+  doc.save(`produccion_${scaled.name.replace(/\s+/g, '_')}.pdf`);
+};
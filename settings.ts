@@ -0,0 +1,63 @@
+import { DocumentData } from 'firebase/firestore';
+import { BusinessProfile, CostingSettings, DietarySettings, OverheadSettings, PricingRule, PrinterSettings, UserSettings } from './types';
+
+export const DEFAULT_PRICING_RULE: PricingRule = {
+  method: 'markup',
+  markup: 3,
+  marginPercent: 65,
+  fixedPrice: 0,
+  fixedPer: 'kg',
+  roundTo: 0,
+  minPrice: 0
+};
+
+export const DEFAULT_COSTING: CostingSettings = {
+  method: 'latest',
+  window: 5
+};
+
+export const DEFAULT_OVERHEAD: OverheadSettings = {
+  labourRate: 0,
+  energyRate: 0,
+  monthlyOverhead: 0,
+  monthlyProduction: 0
+};
+
+// Seeded with the shop's original name, handle and bundled logo so accounts
+// that never opened the profile settings keep printing them. The logo is a URL
+// until a new one is uploaded; removing it saves ''.
+export const DEFAULT_PROFILE: BusinessProfile = {
+  name: 'Alternativa Keto',
+  logo: `${import.meta.env.BASE_URL}logo.png`,
+  instagram: '@alternativaketo',
+  facebook: '',
+  website: '',
+  address: '',
+  phone: '',
+  taxId: '',
+  footer: '¡Gracias por su compra!',
+  currency: '$'
+};
+
+export const DEFAULT_PRINTER: PrinterSettings = {
+  width: 80,
+  connection: 'file',
+  qr: false
+};
+
+export const DEFAULT_DIETARY: DietarySettings = {
+  ketoNetCarbLimit: 5
+};
+
+// Settings live in a single `settings/{userId}` document. Fields missing from
+// older documents fall back to the defaults.
+export const parseSettings = (userId: string, data?: DocumentData): UserSettings => ({
+  userId,
+  pricing: { ...DEFAULT_PRICING_RULE, ...(data?.pricing || {}) },
+  costing: { ...DEFAULT_COSTING, ...(data?.costing || {}) },
+  overhead: { ...DEFAULT_OVERHEAD, ...(data?.overhead || {}) },
+  packaging: Array.isArray(data?.packaging) ? data.packaging : [],
+  profile: { ...DEFAULT_PROFILE, ...(data?.profile || {}) },
+  printer: { ...DEFAULT_PRINTER, ...(data?.printer || {}) },
+  dietary: { ...DEFAULT_DIETARY, ...(data?.dietary || {}) }
+});
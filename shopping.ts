@@ -0,0 +1,161 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile, CostingSettings, Ingredient, Order, Recipe } from './types';
+import { getEffectivePricePerUnit } from './costing';
+import { getRecipeIngredientUsage, toStockUnit, formatStock } from './stock';
+import { todayISO } from './dates';
+import { formatAmount } from './pdf';
+
+export interface PlannedBatch {
+  recipeId: string;
+  batches: number;
+}
+
+export interface ShoppingLine {
+  ingredientId: string;
+  name: string;
+  unit: string;
+  needed: number; // In the ingredient's unit
+  inStock: number;
+  missing: number; // Needed minus stock, never negative
+  packageSize: number; // Ingredient.quantity, in the ingredient's unit
+  packages: number;
+  estimatedCost: number;
+}
+
+export interface ShoppingList {
+  lines: ShoppingLine[];
+  total: number;
+}
+
+// Raw ingredient usage (recipe units) for a set of recipes and batch counts
+export const getPlanUsage = (plan: PlannedBatch[], recipes: Recipe[]): Map<string, number> => {
+  const usage = new Map<string, number>();
+  plan.forEach(item => {
+    const recipe = recipes.find(r => r.id === item.recipeId);
+    if (!recipe || item.batches <= 0) return;
+    getRecipeIngredientUsage(recipe, recipes, item.batches).forEach((quantity, ingredientId) => {
+      usage.set(ingredientId, (usage.get(ingredientId) || 0) + quantity);
+    });
+  });
+  return usage;
+};
+
+// Orders are sold by weight, so each item is a fraction of the recipe's yield
+export const getOrdersPlan = (orders: Order[], recipes: Recipe[]): PlannedBatch[] =>
+  orders.flatMap(order => order.items.flatMap(item => {
+    const recipe = recipes.find(r => r.id === item.recipeId);
+    if (!recipe || recipe.totalYieldWeight <= 0) return [];
+    return [{ recipeId: recipe.id, batches: item.quantity / recipe.totalYieldWeight }];
+  }));
+
+export const buildShoppingList = (
+  usage: Map<string, number>,
+  ingredients: Ingredient[],
+  costing: CostingSettings,
+  subtractStock: boolean
+): ShoppingList => {
+  const lines: ShoppingLine[] = [];
+
+  usage.forEach((quantityUsed, ingredientId) => {
+    const ingredient = ingredients.find(i => i.id === ingredientId);
+    if (!ingredient) return;
+
+    const needed = toStockUnit(ingredient, quantityUsed);
+    const inStock = subtractStock ? Math.max(0, ingredient.stock || 0) : 0;
+    const missing = Math.max(0, needed - inStock);
+    const packageSize = ingredient.quantity && ingredient.quantity > 0 ? ingredient.quantity : 1;
+    // Tolerance avoids buying an extra package over floating point noise
+    const packages = missing > 0 ? Math.ceil(missing / packageSize - 1e-9) : 0;
+
+    lines.push({
+      ingredientId,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      needed,
+      inStock,
+      missing,
+      packageSize,
+      packages,
+      estimatedCost: packages * packageSize * getEffectivePricePerUnit(ingredient, costing)
+    });
+  });
+
+  lines.sort((a, b) => a.name.localeCompare(b.name));
+  return { lines, total: lines.reduce((sum, line) => sum + line.estimatedCost, 0) };
+};
+
+const describePackages = (line: ShoppingLine) =>
+  `${line.packages} x ${formatStock(line.packageSize)} ${line.unit}`;
+
+// Plain text meant to be pasted into WhatsApp (*bold* is WhatsApp markup)
+export const formatShoppingListText = (list: ShoppingList, currency: string): string => {
+  const toBuy = list.lines.filter(line => line.packages > 0);
+  return [
+    `*Lista de compras* (${todayISO()})`,
+    '',
+    ...toBuy.map(line => `- ${line.name}: ${describePackages(line)} (${formatAmount(line.estimatedCost, currency)})`),
+    '',
+    `*Total estimado: ${formatAmount(list.total, currency)}*`
+  ].join('\n');
+};
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+
+export const generateShoppingListPdf = (list: ShoppingList, profile: BusinessProfile) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const right = PAGE_WIDTH - MARGIN;
+  const money = (value: number) => formatAmount(value, profile.currency);
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text("Lista de compras", MARGIN, 25);
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Fecha: ${todayISO()}`, right, 25, { align: "right" });
+  if (profile.name) doc.text(profile.name, right, 20, { align: "right" });
+
+  const header = () => {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "bold");
+    doc.text("Insumo", MARGIN, y);
+    doc.text("Necesario", 105, y, { align: "right" });
+    doc.text("En stock", 130, y, { align: "right" });
+    doc.text("Comprar", 160, y, { align: "right" });
+    doc.text("Estimado", right, y, { align: "right" });
+    doc.setDrawColor(200);
+    doc.line(MARGIN, y + 2, right, y + 2);
+    y += 8;
+  };
+
+  let y = 38;
+  header();
+  doc.setFont("helvetica", "normal");
+  list.lines.forEach(line => {
+    if (y > PAGE_HEIGHT - 30) {
+      doc.addPage();
+      y = MARGIN + 5;
+      header();
+      doc.setFont("helvetica", "normal");
+    }
+    doc.setTextColor(line.packages > 0 ? 0 : 150);
+    doc.text(doc.splitTextToSize(line.name, 60)[0], MARGIN, y);
+    doc.text(`${formatStock(line.needed)} ${line.unit}`, 105, y, { align: "right" });
+    doc.text(`${formatStock(line.inStock)} ${line.unit}`, 130, y, { align: "right" });
+    doc.text(line.packages > 0 ? describePackages(line) : '-', 160, y, { align: "right" });
+    doc.text(line.packages > 0 ? money(line.estimatedCost) : '-', right, y, { align: "right" });
+    y += 7;
+  });
+  doc.setTextColor(0);
+
+  y += 4;
+  doc.line(MARGIN, y, right, y);
+  y += 8;
+  doc.setFontSize(13);
+  doc.setFont("helvetica", "bold");
+  doc.text("Total estimado", MARGIN, y);
+  doc.text(money(list.total), right, y, { align: "right" });
+
+  doc.save(`lista_compras_${todayISO()}.pdf`);
+};
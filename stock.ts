@@ -0,0 +1,33 @@
+import { Ingredient, Recipe, getConversionFactor } from './types';
+import { getUsableFraction } from './costing';
+
+// Total quantity of each raw ingredient (grams, ml or units, as written in
+// recipes) needed for `batches` of a recipe, expanding its sub-recipes.
+export const getRecipeIngredientUsage = (recipe: Recipe, recipes: Recipe[], batches: number): Map<string, number> => {
+  const usage = new Map<string, number>();
+
+  const expand = (current: Recipe, multiplier: number, stack: string[]) => {
+    current.ingredients.forEach(item => {
+      usage.set(item.ingredientId, (usage.get(item.ingredientId) || 0) + item.quantityUsed * multiplier);
+    });
+    (current.components || []).forEach(component => {
+      const sub = recipes.find(r => r.id === component.recipeId);
+      if (!sub || stack.includes(sub.id) || sub.totalYieldWeight <= 0) return;
+      expand(sub, multiplier * (component.quantityUsed / sub.totalYieldWeight), [...stack, sub.id]);
+    });
+  };
+
+  expand(recipe, batches, [recipe.id]);
+  return usage;
+};
+
+// Converts a recipe quantity (grams, ml or units) to the ingredient's stock
+// unit, adding back what is lost to waste before it reaches the recipe
+export const toStockUnit = (ingredient: Ingredient, quantityUsed: number): number =>
+  quantityUsed / getConversionFactor(ingredient.unit) / getUsableFraction(ingredient);
+
+export const isLowStock = (ingredient: Ingredient): boolean =>
+  ingredient.minStock !== undefined && ingredient.minStock > 0 && (ingredient.stock || 0) <= ingredient.minStock;
+
+export const formatStock = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 3 });
@@ -0,0 +1,148 @@
+import { Ingredient, Recipe, UserSettings } from './types';
+import { appendPriceEntry, calculateCostBreakdown, calculateRecipeCost } from './costing';
+import { calculatePrice, resolvePricingRule } from './pricing';
+import { parseCsvNumber } from './csv';
+import { todayISO } from './dates';
+
+// Column index of each field in the pasted price list, -1 when missing
+export interface PriceListColumns {
+  code: number;
+  name: number;
+  packageSize: number;
+  price: number;
+}
+
+export interface PriceListRow {
+  code: string;
+  name: string;
+  packageSize: number; // In the ingredient's unit; 0 when the list doesn't say
+  price: number; // Per package
+}
+
+const COLUMN_HINTS: Record<keyof PriceListColumns, RegExp> = {
+  code: /c[oó]d|sku|art\.?$/i,
+  name: /desc|prod|nombre|art[ií]culo|item/i,
+  packageSize: /cant|pres|tama|peso|cont|kg|gr|unid/i,
+  price: /precio|price|importe|valor|\$/i
+};
+
+// Best guess from the header names; the user can correct it before importing
+export const guessPriceListColumns = (header: string[]): PriceListColumns => {
+  const used = new Set<number>();
+  const find = (field: keyof PriceListColumns) => {
+    const index = header.findIndex((cell, i) => !used.has(i) && COLUMN_HINTS[field].test(cell.trim()));
+    if (index >= 0) used.add(index);
+    return index;
+  };
+  // Price first: headers like "Precio x Kg" would otherwise match the package size
+  const price = find('price');
+  const code = find('code');
+  const name = find('name');
+  const packageSize = find('packageSize');
+  return { code, name, packageSize, price };
+};
+
+// Rows without a name or a valid price are skipped
+export const parsePriceList = (rows: string[][], columns: PriceListColumns): PriceListRow[] =>
+  rows
+    .map(row => {
+      const cell = (index: number) => (index >= 0 ? row[index] || '' : '').trim();
+      return {
+        code: cell(columns.code),
+        name: cell(columns.name),
+        packageSize: parseCsvNumber(cell(columns.packageSize)) || 0,
+        price: parseCsvNumber(cell(columns.price))
+      };
+    })
+    .filter(row => (row.name || row.code) && !isNaN(row.price) && row.price > 0);
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Matches by the supplier's product code first, then by name (same
+// case-insensitive comparison as the ingredient form), preferring ingredients
+// already linked to this supplier. Archived ingredients are skipped, like in
+// the ingredient picker. Returns '' when nothing matches.
+export const matchPriceListRow = (row: PriceListRow, ingredients: Ingredient[], supplierId: string): string => {
+  const active = ingredients.filter(i => !i.archived);
+  const own = active.filter(i => i.supplierId === supplierId);
+  const match =
+    (row.code && own.find(i => i.supplierCode && sameText(i.supplierCode, row.code))) ||
+    (row.name && own.find(i => sameText(i.name, row.name))) ||
+    (row.name && active.find(i => sameText(i.name, row.name)));
+  return match ? match.id : '';
+};
+
+// The list price spread over the package, in the ingredient's unit. Without a
+// package size the ingredient's own package quantity is assumed.
+export const getListPricePerUnit = (row: PriceListRow, ingredient: Ingredient): number =>
+  row.price / (row.packageSize > 0 ? row.packageSize : ingredient.quantity || 1);
+
+export interface PriceChange {
+  ingredientId: string;
+  pricePerUnit: number;
+}
+
+export const getIngredientCategories = (ingredients: Ingredient[]): string[] =>
+  Array.from(new Set(ingredients.map(i => (i.category || '').trim()).filter(c => c)))
+    .sort((a, b) => a.localeCompare(b));
+
+// +X% (or -X%) on every active ingredient from the supplier and/or category; '' matches all
+export const getPercentChanges = (
+  ingredients: Ingredient[],
+  filter: { supplierId: string; category: string },
+  percent: number
+): PriceChange[] =>
+  ingredients
+    .filter(i =>
+      !i.archived &&
+      (!filter.supplierId || i.supplierId === filter.supplierId) &&
+      (!filter.category || sameText(i.category || '', filter.category))
+    )
+    .map(i => ({ ingredientId: i.id, pricePerUnit: i.pricePerUnit * (1 + percent / 100) }));
+
+// Ingredients as they'd be saved, with the new price also recorded in the
+// history so averaged costing methods pick it up
+export const applyPriceChanges = (ingredients: Ingredient[], changes: PriceChange[]): Ingredient[] =>
+  ingredients.map(ing => {
+    const change = changes.find(c => c.ingredientId === ing.id);
+    if (!change) return ing;
+    return {
+      ...ing,
+      pricePerUnit: change.pricePerUnit,
+      priceHistory: appendPriceEntry(ing, { date: todayISO(), pricePerUnit: change.pricePerUnit, quantity: ing.quantity || 1, source: 'edit' })
+    };
+  });
+
+export interface RecipeChangePreview {
+  recipe: Recipe;
+  oldCostPerGram: number;
+  newCostPerGram: number;
+  oldPrice: number; // Suggested price for the whole yield
+  newPrice: number;
+}
+
+// Recipes whose live cost would change, before anything is written
+export const previewRecipeChanges = (
+  changes: PriceChange[],
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  settings: UserSettings
+): RecipeChangePreview[] => {
+  const updated = applyPriceChanges(ingredients, changes);
+  const suggestedPrice = (recipe: Recipe, ings: Ingredient[]) =>
+    calculatePrice(
+      calculateCostBreakdown(recipe, ings, recipes, settings).total,
+      recipe.totalYieldWeight,
+      resolvePricingRule(recipe, settings)
+    );
+
+  return recipes
+    .map(recipe => ({
+      recipe,
+      oldCostPerGram: calculateRecipeCost(recipe, ingredients, recipes, settings.costing).costPerGram,
+      newCostPerGram: calculateRecipeCost(recipe, updated, recipes, settings.costing).costPerGram,
+      oldPrice: suggestedPrice(recipe, ingredients),
+      newPrice: suggestedPrice(recipe, updated)
+    }))
+    .filter(preview => preview.oldCostPerGram.toFixed(4) !== preview.newCostPerGram.toFixed(4));
+};
@@ -0,0 +1,150 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile } from './types';
+import { fitLogo, formatAmount, getContactLines, loadLogo } from './pdf';
+
+export interface TicketLine {
+  name: string;
+  detail: string; // Quantity or sellable format, printed under the name
+  price: number;
+}
+
+// Everything a ticket shows, independent of how it's rendered
+export interface TicketData {
+  lines: TicketLine[];
+  subtotal: number;
+  discount: number;
+  total: number;
+}
+
+const TICKET_WIDTH = 80;
+const LINE_HEIGHT = 12;
+const CONTACT_LINE_HEIGHT = 5;
+const SOCIAL_LINE_HEIGHT = 6;
+
+// Secondary social links are printed as text under the Instagram handle
+const getExtraSocialLines = (profile: BusinessProfile) =>
+  [profile.facebook, profile.website].filter(line => line.trim());
+
+const LOGO_MAX_SIZE = 50;
+
+// Y of the shop name, below the logo when there is one
+const getHeaderY = (logoHeight: number) => (logoHeight > 0 ? 5 + logoHeight + 7 : 20);
+
+// Roll length grows with the number of lines and profile details
+const getTicketHeight = (data: TicketData, profile: BusinessProfile, logoHeight: number) =>
+  getHeaderY(logoHeight) +
+  16 + getContactLines(profile).length * CONTACT_LINE_HEIGHT +
+  data.lines.length * LINE_HEIGHT +
+  (data.discount > 0 ? 12 : 0) +
+  67 + getExtraSocialLines(profile).length * SOCIAL_LINE_HEIGHT;
+
+export const generateTicketPdf = async (data: TicketData, fileName: string, profile: BusinessProfile) => {
+  const logo = await loadLogo(profile);
+  const logoSize = logo ? fitLogo(logo, LOGO_MAX_SIZE, LOGO_MAX_SIZE) : { width: 0, height: 0 };
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: [TICKET_WIDTH, getTicketHeight(data, profile, logoSize.height)]
+  });
+  const center = TICKET_WIDTH / 2;
+  const money = (value: number) => formatAmount(value, profile.currency);
+
+  if (logo) {
+    // Logo fitted in 50x50mm, keeping its proportions, and centered
+    doc.addImage(logo, 'PNG', center - logoSize.width / 2, 5, logoSize.width, logoSize.height);
+  }
+
+  // Header
+  const headerY = getHeaderY(logoSize.height);
+
+  // Shop Name
+  if (profile.name) {
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.text(profile.name, center, headerY, { align: "center" });
+  }
+
+  // Address, phone and tax ID
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  const contactLines = getContactLines(profile);
+  contactLines.forEach((line, index) => {
+    doc.text(doc.splitTextToSize(line, TICKET_WIDTH - 10)[0], center, headerY + 5 + index * CONTACT_LINE_HEIGHT, { align: "center" });
+  });
+  const dividerY = headerY + 6 + contactLines.length * CONTACT_LINE_HEIGHT;
+
+  // Divider
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  doc.text("----------------------------------------", center, dividerY, { align: "center" });
+
+  // Product lines: name on the left, quantity below, price on the right
+  let y = dividerY + 10;
+  data.lines.forEach(line => {
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(doc.splitTextToSize(line.name, 50)[0], 5, y);
+    doc.text(money(line.price), TICKET_WIDTH - 5, y, { align: "right" });
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.text(doc.splitTextToSize(line.detail, 70)[0], 5, y + 5);
+    y += LINE_HEIGHT;
+  });
+
+  doc.setFontSize(10);
+  doc.text("----------------------------------------", center, y - 4, { align: "center" });
+
+  if (data.discount > 0) {
+    doc.setFontSize(11);
+    doc.text("Subtotal", 5, y + 2);
+    doc.text(money(data.subtotal), TICKET_WIDTH - 5, y + 2, { align: "right" });
+    doc.text("Descuento", 5, y + 8);
+    doc.text(`-${money(data.discount)}`, TICKET_WIDTH - 5, y + 8, { align: "right" });
+    y += 12;
+  }
+
+  // Total
+  doc.setFontSize(26);
+  doc.setFont("helvetica", "bold");
+  doc.text(money(data.total), center, y + 10, { align: "center" });
+
+  // Footer
+  if (profile.footer) {
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "italic");
+    doc.text(doc.splitTextToSize(profile.footer, TICKET_WIDTH - 10)[0], center, y + 28, { align: "center" });
+  }
+
+  // Instagram Icon & Handle, centered as a group: icon (7mm) + gap (2mm) + text
+  const iconY = y + 32;
+  const iconSize = 7;
+  if (profile.instagram) {
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    const startX = center - (iconSize + 2 + doc.getTextWidth(profile.instagram)) / 2;
+
+    // Icon Background (Rounded Rect)
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.4);
+    doc.roundedRect(startX, iconY, iconSize, iconSize, 2, 2, 'S');
+
+    // Inner Circle
+    doc.circle(startX + (iconSize / 2), iconY + (iconSize / 2), iconSize * 0.25, 'S');
+
+    // Dot
+    doc.circle(startX + (iconSize * 0.75), iconY + (iconSize * 0.22), 0.4, 'F');
+
+    // Text
+    // Adjust text position relative to icon
+    doc.text(profile.instagram, startX + iconSize + 2, iconY + 5, { align: "left" });
+  }
+
+  // Facebook and website
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  getExtraSocialLines(profile).forEach((line, index) => {
+    doc.text(line, center, iconY + 14 + index * SOCIAL_LINE_HEIGHT, { align: "center" });
+  });
+
+  doc.save(fileName);
+};
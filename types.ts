@@ -12,12 +12,121 @@ export interface Ingredient {
   unit: Unit;
   quantity?: number;
   pricePerUnit: number;
+  nutrition?: NutritionFacts | null; // Per 100 g/ml, or per unit if unit is UN
+  archived?: boolean; // Hidden from new recipes but still priced in existing ones
+  priceHistory?: PriceEntry[]; // Oldest first, capped to the latest entries
+  stock?: number; // On hand, in the ingredient's unit (Kg, Lt, Un...)
+  minStock?: number; // Low-stock warning threshold, same unit as stock
+  wastePercent?: number; // Share lost to trimming (shells, peels), raises the effective cost
+  allergens?: Allergen[];
+  dietaryTags?: DietaryTag[]; // Set by hand; 'keto' is worked out from nutrition instead
+  density?: number; // g/ml, to convert cups and spoons
+  unitWeight?: number; // Grams per unit (e.g. 1 egg = 50 g)
+  category?: string; // Free text (e.g. "Lácteos"), for bulk price updates
+  supplierId?: string;
+  supplierCode?: string; // Product code in the supplier's price list
 }
 
+export interface PriceEntry {
+  date: string; // yyyy-mm-dd
+  pricePerUnit: number;
+  quantity: number; // Quantity bought at this price, used to weight averages
+  source: 'edit' | 'purchase';
+}
+
+export interface Supplier {
+  id: string;
+  userId: string;
+  name: string;
+  contact?: string; // Phone, email or salesperson
+}
+
+export type CostingMethod = 'latest' | 'weightedAverage' | 'highest';
+
+export interface CostingSettings {
+  method: CostingMethod;
+  window: number; // How many recent price entries the average/highest looks at
+}
+
+export type StockMovementType = 'purchase' | 'production' | 'adjustment';
+
+export interface StockMovement {
+  id: string;
+  userId: string;
+  ingredientId: string;
+  type: StockMovementType;
+  quantity: number; // In the ingredient's unit; negative when stock is consumed
+  pricePaid?: number; // Total paid, for purchases
+  supplier?: string;
+  recipeId?: string; // For production runs
+  batches?: number;
+  date: string; // yyyy-mm-dd
+  createdAt: number; // ms timestamp, for ordering
+}
+
+export interface NutritionFacts {
+  kcal: number;
+  fat: number; // g
+  protein: number; // g
+  carbs: number; // Total carbohydrates, g
+  fiber: number; // g
+  sugarAlcohols: number; // Erythritol and other polyols, g
+}
+
+// Units a recipe row can be written in
+export type RecipeUnit = 'g' | 'ml' | 'un' | 'cup' | 'tbsp' | 'tsp' | 'oz';
+
 export interface RecipeIngredient {
   ingredientId: string;
-  quantityUsed: number; // In grams if KG/LT, or units if UN
+  quantityUsed: number; // In grams if KG/GR, ml if LT, or units if UN
   calculatedCost: number;
+  entryUnit?: RecipeUnit; // As written in the recipe, when not the base unit
+  entryQuantity?: number;
+}
+
+// Another recipe used as part of this one (e.g. a sponge inside a cake)
+export interface RecipeComponent {
+  recipeId: string;
+  quantityUsed: number; // Grams (or units) of the sub-recipe's yield
+  calculatedCost: number;
+}
+
+// What `Recipe.totalYieldWeight` counts
+export type YieldType = 'weight' | 'units' | 'portions';
+
+export type Allergen = 'treeNuts' | 'eggs' | 'dairy' | 'soy' | 'gluten' | 'peanuts' | 'sesame';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  treeNuts: 'Frutos secos',
+  eggs: 'Huevo',
+  dairy: 'Lácteos',
+  soy: 'Soja',
+  gluten: 'Gluten (TACC)',
+  peanuts: 'Maní',
+  sesame: 'Sésamo'
+};
+
+export type DietaryTag = 'sugarFree' | 'glutenFree' | 'vegan' | 'keto';
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  sugarFree: 'Sin azúcar',
+  glutenFree: 'Sin TACC',
+  vegan: 'Vegano',
+  keto: 'Keto'
+};
+
+export const YIELD_TYPE_LABELS: Record<YieldType, string> = {
+  weight: 'Peso (gramos)',
+  units: 'Unidades',
+  portions: 'Porciones'
+};
+
+// A way the recipe is sold (whole cake, half, slice, box of 6)
+export interface SellableFormat {
+  id: string;
+  name: string;
+  quantity: number; // Grams, units or portions of the yield it takes
+  price: number; // Fixed price; 0 uses the recipe's pricing rule
 }
 
 export interface Recipe {
@@ -25,9 +134,19 @@ export interface Recipe {
   userId: string;
   name: string;
   ingredients: RecipeIngredient[];
-  totalYieldWeight: number; // Total weight of the result (e.g. 1500g cake)
+  components?: RecipeComponent[];
+  totalYieldWeight: number; // Total weight of the result (e.g. 1500g cake), or units/portions per yieldType
   totalCost: number;
   costPerGram: number; // Or cost per unit if yield is 1
+  pricing?: PricingRule | null; // Overrides the user's default pricing rule
+  servingSize?: number; // Grams per serving, for the nutrition label
+  allergens?: string; // Extra free text for the label (e.g. "Puede contener trazas de maní"); the rest comes from the ingredients
+  labourMinutes?: number; // Hands-on time for one batch
+  ovenMinutes?: number; // Oven time for one batch
+  moistureLossPercent?: number; // Weight lost while cooking, used to estimate the yield
+  yieldType?: YieldType; // Defaults to 'weight'
+  portionWeight?: number; // Grams per portion when yieldType is 'portions'
+  formats?: SellableFormat[];
 }
 
 // Helper to convert units for display/calculation
@@ -44,4 +163,177 @@ export const getConversionFactor = (unit: Unit): number => {
     case Unit.UN: return 1;
     default: return 1;
   }
-};
\ No newline at end of file
+};
+
+export type PricingMethod = 'markup' | 'margin' | 'fixed';
+
+export interface PricingRule {
+  method: PricingMethod;
+  markup: number; // Multiplier over cost (e.g. 3 = cost x3)
+  marginPercent: number; // Target gross margin as % of the selling price
+  fixedPrice: number; // Price per kg, or per unit if fixedPer is 'unit'
+  fixedPer: 'kg' | 'unit';
+  roundTo: number; // Round up to a multiple of this (0 = no rounding)
+  minPrice: number;
+}
+
+// Costs beyond ingredients, added to every recipe's production cost
+export interface OverheadSettings {
+  labourRate: number; // Per hour of labour
+  energyRate: number; // Per hour of oven use (gas/electricity)
+  monthlyOverhead: number; // Fixed monthly costs (rent, services...)
+  monthlyProduction: number; // Grams/units produced per month, to spread the overhead
+}
+
+// Box, ribbon, bag... chosen per sale
+export interface PackagingItem {
+  id: string;
+  name: string;
+  cost: number;
+}
+
+// Shop details printed on tickets, quotes, labels and every other PDF
+export interface BusinessProfile {
+  name: string;
+  logo: string; // PNG data URL, '' for none
+  instagram: string;
+  facebook: string;
+  website: string;
+  address: string;
+  phone: string;
+  taxId: string; // CUIT or equivalent
+  footer: string; // Thank-you message at the end of the ticket
+  currency: string; // Symbol printed before amounts
+}
+
+export interface DietarySettings {
+  ketoNetCarbLimit: number; // Max net carbs per 100 g for a recipe to count as keto
+}
+
+export type PrinterWidth = 58 | 80; // Paper roll width in mm
+export type PrinterConnection = 'serial' | 'usb' | 'file';
+
+// Thermal receipt printer used for ESC/POS tickets
+export interface PrinterSettings {
+  width: PrinterWidth;
+  connection: PrinterConnection; // 'file' downloads the raw bytes as .bin
+  qr: boolean; // Print a QR code linking to the Instagram profile
+}
+
+export interface UserSettings {
+  userId: string;
+  pricing: PricingRule;
+  costing: CostingSettings;
+  overhead: OverheadSettings;
+  packaging: PackagingItem[];
+  profile: BusinessProfile;
+  printer: PrinterSettings;
+  dietary: DietarySettings;
+}
+
+export type PaymentMethod = 'cash' | 'transfer' | 'card' | 'other';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Efectivo',
+  transfer: 'Transferencia',
+  card: 'Tarjeta',
+  other: 'Otro'
+};
+
+export interface SaleItem {
+  recipeId: string;
+  recipeName: string; // Kept so the ledger survives recipe renames/deletes
+  quantity: number; // Grams, units or portions sold
+  format?: string; // Sellable format description (e.g. "2 x Caja x6")
+  cost: number; // Production cost at the time of the sale
+  price: number; // Price charged for this line, before the sale discount
+}
+
+export interface Sale {
+  id: string;
+  userId: string;
+  items: SaleItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  totalCost: number; // Production cost of the items plus packaging
+  packagingCost?: number;
+  paymentMethod: PaymentMethod;
+  customer?: string;
+  date: string; // yyyy-mm-dd
+  createdAt: number; // ms timestamp
+  voided?: boolean;
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviado',
+  accepted: 'Aceptado',
+  rejected: 'Rechazado',
+  expired: 'Vencido'
+};
+
+export interface QuoteItem {
+  recipeId: string;
+  recipeName: string;
+  targetWeight: number; // In the recipe's yield units (grams, units or portions)
+  cost: number;
+  price: number;
+}
+
+// Decorations, packaging, delivery... anything charged on top of the recipes
+export interface QuoteExtra {
+  description: string;
+  amount: number;
+}
+
+export interface Quote {
+  id: string;
+  userId: string;
+  customer: string;
+  items: QuoteItem[];
+  extras: QuoteExtra[];
+  labourHours: number;
+  labourRate: number; // Per hour
+  total: number;
+  notes?: string;
+  status: QuoteStatus;
+  validUntil: string; // yyyy-mm-dd
+  deliveryDate?: string; // yyyy-mm-dd, requested by the customer
+  createdAt: number;
+  orderId?: string; // Set once an accepted quote has been turned into an order
+}
+
+export type OrderStatus = 'pending' | 'inProduction' | 'ready' | 'delivered';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendiente',
+  inProduction: 'En producción',
+  ready: 'Listo',
+  delivered: 'Entregado'
+};
+
+export interface OrderItem {
+  recipeId: string;
+  recipeName: string;
+  quantity: number; // Grams or units
+  price: number;
+}
+
+export interface Order {
+  id: string;
+  userId: string;
+  customer: string;
+  items: OrderItem[];
+  extras: QuoteExtra[];
+  total: number;
+  deposit: number;
+  deliveryDate: string; // yyyy-mm-dd
+  deliveryTime?: string; // HH:mm
+  status: OrderStatus;
+  notes?: string;
+  quoteId?: string;
+  createdAt: number;
+}
@@ -0,0 +1,64 @@
+import { Ingredient, RecipeUnit, Unit } from './types';
+
+export const RECIPE_UNITS: { id: RecipeUnit; name: string }[] = [
+  { id: 'g', name: 'g' },
+  { id: 'ml', name: 'ml' },
+  { id: 'un', name: 'un' },
+  { id: 'cup', name: 'taza' },
+  { id: 'tbsp', name: 'cda' },
+  { id: 'tsp', name: 'cdita' },
+  { id: 'oz', name: 'oz' }
+];
+
+// Metric kitchen measures
+const ML_PER_UNIT: Partial<Record<RecipeUnit, number>> = { ml: 1, cup: 240, tbsp: 15, tsp: 5 };
+const GRAMS_PER_OZ = 28.35;
+
+// Recipe quantities are stored in grams for Kg/Gr, ml for Lt and units for Un
+export const getBaseUnit = (unit: Unit): RecipeUnit => {
+  switch (unit) {
+    case Unit.LT: return 'ml';
+    case Unit.UN: return 'un';
+    default: return 'g';
+  }
+};
+
+export const getRecipeUnitLabel = (unit: RecipeUnit): string =>
+  RECIPE_UNITS.find(u => u.id === unit)?.name || unit;
+
+// Converts `quantity` in a kitchen unit to the ingredient's base unit using its
+// density (g/ml) or weight per unit. Returns null when the ingredient lacks the
+// data needed for that conversion.
+export const toBaseQuantity = (quantity: number, unit: RecipeUnit, ingredient: Ingredient): number | null => {
+  const base = getBaseUnit(ingredient.unit);
+  if (unit === base) return quantity;
+
+  const density = ingredient.density && ingredient.density > 0 ? ingredient.density : null;
+  const unitWeight = ingredient.unitWeight && ingredient.unitWeight > 0 ? ingredient.unitWeight : null;
+
+  // Normalise to grams first
+  let grams: number | null;
+  if (unit === 'g') grams = quantity;
+  else if (unit === 'oz') grams = quantity * GRAMS_PER_OZ;
+  else if (unit === 'un') grams = unitWeight ? quantity * unitWeight : null;
+  else grams = density ? quantity * ML_PER_UNIT[unit]! * density : null;
+
+  // Volumes convert straight to ml without needing a density
+  if (base === 'ml' && ML_PER_UNIT[unit]) return quantity * ML_PER_UNIT[unit]!;
+
+  if (grams === null) return null;
+  switch (base) {
+    case 'g': return grams;
+    case 'ml': return density ? grams / density : null;
+    default: return unitWeight ? grams / unitWeight : null;
+  }
+};
+
+// Approximate weight in grams of a base quantity, or null when unknown
+export const toGrams = (quantityUsed: number, ingredient: Ingredient): number | null => {
+  switch (getBaseUnit(ingredient.unit)) {
+    case 'g': return quantityUsed;
+    case 'ml': return quantityUsed * (ingredient.density && ingredient.density > 0 ? ingredient.density : 1);
+    default: return ingredient.unitWeight && ingredient.unitWeight > 0 ? quantityUsed * ingredient.unitWeight : null;
+  }
+};
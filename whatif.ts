@@ -0,0 +1,93 @@
+import { Ingredient, Recipe, UserSettings } from './types';
+import { calculateCostBreakdown, calculateRecipeCost } from './costing';
+import { calculatePrice, resolvePricingRule } from './pricing';
+
+export interface CostShare {
+  label: string;
+  cost: number;
+  percent: number; // Of the recipe's ingredient cost
+  isComponent: boolean;
+}
+
+// Each row and sub-recipe with its share of the ingredient cost, largest first.
+// Uses live prices, like the totals on the recipe card.
+export const getCostShares = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], settings: UserSettings): CostShare[] => {
+  const live = calculateRecipeCost(recipe, ingredients, recipes, settings.costing);
+  const share = (cost: number) => (live.totalCost > 0 ? (cost / live.totalCost) * 100 : 0);
+  return [
+    ...recipe.ingredients.map((item, index) => ({
+      label: ingredients.find(i => i.id === item.ingredientId)?.name || 'Ingrediente eliminado',
+      cost: live.rowCosts[index],
+      percent: share(live.rowCosts[index]),
+      isComponent: false
+    })),
+    ...(recipe.components || []).map((component, index) => ({
+      label: recipes.find(r => r.id === component.recipeId)?.name || 'Sub-receta eliminada',
+      cost: live.componentCosts[index],
+      percent: share(live.componentCosts[index]),
+      isComponent: true
+    }))
+  ].sort((a, b) => b.cost - a.cost);
+};
+
+// Changes tried on a recipe without saving them
+export interface WhatIfScenario {
+  prices: Record<string, number>; // Ingredient id -> price per unit (Kg, Lt, Un...)
+  swaps: Record<number, string>; // Row index -> replacement ingredient id, measured in the same base unit
+  quantities: Record<number, number>; // Row index -> quantity in the base unit (g, ml, un)
+}
+
+export const EMPTY_SCENARIO: WhatIfScenario = { prices: {}, swaps: {}, quantities: {} };
+
+// Recipe and ingredient list with the scenario applied. Price overrides drop
+// the price history so every costing method uses the new price, and they
+// also reach sub-recipes that use the ingredient. The yield is kept as saved.
+export const applyScenario = (
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  scenario: WhatIfScenario
+): { recipe: Recipe; ingredients: Ingredient[] } => ({
+  recipe: {
+    ...recipe,
+    ingredients: recipe.ingredients.map((item, index) => {
+      const quantity = scenario.quantities[index];
+      return {
+        ...item,
+        ingredientId: scenario.swaps[index] || item.ingredientId,
+        ...(quantity !== undefined ? { quantityUsed: quantity, entryUnit: undefined, entryQuantity: undefined } : {})
+      };
+    })
+  },
+  ingredients: ingredients.map(ing =>
+    scenario.prices[ing.id] !== undefined ? { ...ing, pricePerUnit: scenario.prices[ing.id], priceHistory: [] } : ing
+  )
+});
+
+export interface WhatIfTotals {
+  cost: number; // Full production cost of one batch
+  costPerUnit: number; // Per gram, unit or portion of the yield
+  price: number; // Suggested price of one batch
+}
+
+const getTotals = (recipe: Recipe, ingredients: Ingredient[], recipes: Recipe[], settings: UserSettings): WhatIfTotals => {
+  const cost = calculateCostBreakdown(recipe, ingredients, recipes, settings).total;
+  return {
+    cost,
+    costPerUnit: recipe.totalYieldWeight > 0 ? cost / recipe.totalYieldWeight : 0,
+    price: calculatePrice(cost, recipe.totalYieldWeight, resolvePricingRule(recipe, settings))
+  };
+};
+
+export const simulateScenario = (
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  recipes: Recipe[],
+  settings: UserSettings,
+  scenario: WhatIfScenario
+): { before: WhatIfTotals; after: WhatIfTotals } => {
+  const simulated = applyScenario(recipe, ingredients, scenario);
+  return {
+    before: getTotals(recipe, ingredients, recipes, settings),
+    after: getTotals(simulated.recipe, simulated.ingredients, recipes, settings)
+  };
+};
@@ -0,0 +1,87 @@
+import { Ingredient, Recipe } from './types';
+import { toGrams } from './units';
+
+// Entered yields outside this share of the raw mass are flagged as likely typos
+export const PLAUSIBLE_YIELD_RANGE = { min: 0.5, max: 1.2 };
+
+export interface RawMass {
+  grams: number; // Grams/ml of weighed ingredients and sub-recipes
+  // Ingredients counted in units without a unit weight, and sub-recipes whose
+  // yield has no known weight, add nothing
+  hasUnitIngredients: boolean;
+}
+
+export type YieldCheck = 'ok' | 'low' | 'high';
+
+// Total raw mass going into a recipe, from its rows before cooking
+export const getRawMass = (
+  items: { ingredientId: string; quantityUsed: number }[],
+  components: { recipeId: string; quantityUsed: number }[],
+  ingredients: Ingredient[],
+  recipes: Recipe[]
+): RawMass => {
+  let grams = 0;
+  let hasUnitIngredients = false;
+  items.forEach(item => {
+    const ing = ingredients.find(i => i.id === item.ingredientId);
+    if (!ing) return;
+    const weight = toGrams(item.quantityUsed, ing);
+    if (weight === null) {
+      hasUnitIngredients = true;
+      return;
+    }
+    grams += weight;
+  });
+  components.forEach(component => {
+    const sub = recipes.find(r => r.id === component.recipeId);
+    if (!sub) return;
+    const weight = getComponentGrams(component.quantityUsed, sub);
+    if (weight === null) {
+      hasUnitIngredients = true;
+      return;
+    }
+    grams += weight;
+  });
+  return { grams, hasUnitIngredients };
+};
+
+// Short unit for quantities of a recipe's yield
+export const getYieldUnitLabel = (recipe: Pick<Recipe, 'yieldType'> | undefined): string => {
+  switch (recipe?.yieldType) {
+    case 'units': return 'un';
+    case 'portions': return 'porc.';
+    default: return 'g';
+  }
+};
+
+// Weight of the whole yield in grams, or null when it's counted in units
+export const getYieldGrams = (recipe: Pick<Recipe, 'yieldType' | 'totalYieldWeight' | 'portionWeight'>): number | null => {
+  switch (recipe.yieldType) {
+    case 'units': return null;
+    case 'portions': return recipe.portionWeight ? recipe.totalYieldWeight * recipe.portionWeight : null;
+    default: return recipe.totalYieldWeight;
+  }
+};
+
+// Grams of `quantityUsed` (in the sub-recipe's yield units) of a sub-recipe,
+// or null when its yield has no known weight
+export const getComponentGrams = (
+  quantityUsed: number,
+  sub: Pick<Recipe, 'yieldType' | 'totalYieldWeight' | 'portionWeight'>
+): number | null => {
+  const yieldGrams = getYieldGrams(sub);
+  return yieldGrams === null || sub.totalYieldWeight <= 0 ? null : quantityUsed * yieldGrams / sub.totalYieldWeight;
+};
+
+export const estimateYield = (rawGrams: number, moistureLossPercent: number): number =>
+  rawGrams * (1 - Math.min(Math.max(moistureLossPercent, 0), 100) / 100);
+
+// Compares the entered yield with the raw mass. Ingredients counted in units
+// add unknown weight, so only a too-low yield is flagged for those recipes.
+export const checkYield = (totalYield: number, rawMass: RawMass): YieldCheck => {
+  if (rawMass.grams <= 0 || totalYield <= 0) return 'ok';
+  const ratio = totalYield / rawMass.grams;
+  if (ratio < PLAUSIBLE_YIELD_RANGE.min) return 'low';
+  if (ratio > PLAUSIBLE_YIELD_RANGE.max && !rawMass.hasUnitIngredients) return 'high';
+  return 'ok';
+};